@@ -0,0 +1,99 @@
+import { EventEmitter } from './utils'
+import type { Transport, TransportEventMap } from './Transport'
+
+/** Connected transports by room name, shared by every InMemoryTransport in this JS context */
+const rooms = new Map<string, Map<string, InMemoryTransport>>()
+
+/**
+ * A transport that connects providers within the same JS context, with no
+ * network involved. Useful for tests, demos and local-only setups.
+ *
+ * Messages and statuses are delivered asynchronously (as microtasks), like a
+ * real network would.
+ *
+ * @example
+ * ```typescript
+ * const providerA = new SupabaseProvider('room', docA, supabase, { transport: new InMemoryTransport('room') })
+ * const providerB = new SupabaseProvider('room', docB, supabase, { transport: new InMemoryTransport('room') })
+ * ```
+ */
+class InMemoryTransport extends EventEmitter<TransportEventMap> implements Transport {
+  private room: string
+  private peerId: string | null = null
+
+  constructor(room: string) {
+    super()
+    this.room = room
+  }
+
+  connect(peerId: string) {
+    this.close()
+
+    let members = rooms.get(this.room)
+    if (!members) {
+      members = new Map()
+      rooms.set(this.room, members)
+    }
+    members.set(peerId, this)
+    this.peerId = peerId
+
+    queueMicrotask(() => {
+      if (this.peerId !== peerId) return
+      this.emit('status', 'connected')
+      this.announcePresence()
+    })
+  }
+
+  send(event: string, payload: unknown) {
+    if (!this.peerId) return
+
+    const sender = this.peerId
+    // Serialize like a real network would, so receivers never share objects with the sender
+    const message = JSON.stringify(payload)
+
+    rooms.get(this.room)?.forEach((member, peerId) => {
+      if (peerId === sender) return
+      queueMicrotask(() => member.deliver(peerId, event, message))
+    })
+  }
+
+  onMessage(handler: TransportEventMap['message']) {
+    this.on('message', handler)
+  }
+
+  onStatus(handler: TransportEventMap['status']) {
+    this.on('status', handler)
+  }
+
+  onPresence(handler: TransportEventMap['presence']) {
+    this.on('presence', handler)
+  }
+
+  close() {
+    if (!this.peerId) return
+
+    const members = rooms.get(this.room)
+    members?.delete(this.peerId)
+    if (members?.size === 0) rooms.delete(this.room)
+    this.peerId = null
+
+    this.announcePresence()
+  }
+
+  private deliver(peerId: string, event: string, message: string) {
+    // The recipient may have left while the message was in flight
+    if (this.peerId !== peerId) return
+    this.emit('message', event, JSON.parse(message))
+  }
+
+  /** Tells every member of the room who is currently in it */
+  private announcePresence() {
+    const members = rooms.get(this.room)
+    if (!members) return
+
+    const peerIds = Array.from(members.keys())
+    members.forEach((member) => member.emit('presence', peerIds))
+  }
+}
+
+export { InMemoryTransport }
@@ -0,0 +1,140 @@
+import { RealtimeChannel, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js'
+import type { SupabaseClient, RealtimeChannelOptions } from '@supabase/supabase-js'
+import { EventEmitter } from './utils'
+import type { Transport, TransportEventMap } from './Transport'
+
+type RealtimeTransportOptions = {
+  /** Use a private channel, authorized through Realtime Authorization (RLS on `realtime.messages`). Default: false */
+  private?: boolean
+  /** Extra channel config passed to `supabase.channel()`. The presence key is always the peer id */
+  config?: RealtimeChannelOptions['config']
+}
+
+/** Join errors Realtime reports when RLS denies access to a private channel */
+const UNAUTHORIZED_PATTERN = /unauthorized|do not have permissions/i
+
+/**
+ * The default transport: Supabase Realtime broadcast for messages and
+ * Realtime Presence, keyed by peer id, for tracking who is in the room.
+ *
+ * @example
+ * ```typescript
+ * const transport = new RealtimeTransport('my-room', supabase)
+ * const provider = new SupabaseProvider('my-room', doc, supabase, { transport })
+ * ```
+ */
+class RealtimeTransport extends EventEmitter<TransportEventMap> implements Transport {
+  private channelName: string
+  private supabase: SupabaseClient
+  private channel: RealtimeChannel | null = null
+  private peerIds = new Set<string>()
+  private options: RealtimeTransportOptions | undefined
+
+  constructor(channelName: string, supabase: SupabaseClient, options?: RealtimeTransportOptions) {
+    super()
+    this.channelName = channelName
+    this.supabase = supabase
+    this.options = options
+  }
+
+  connect(peerId: string) {
+    // supabase.channel() hands back an existing channel for the same topic,
+    // so drop the previous one to start from a fresh subscription
+    this.close()
+
+    const config = this.options?.config
+    const channel = this.supabase.channel(this.channelName, {
+      config: {
+        ...config,
+        presence: { ...config?.presence, key: peerId },
+        private: this.options?.private ?? config?.private,
+      },
+    })
+    this.channel = channel
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        if (this.channel !== channel) return
+        this.peerIds = new Set(Object.keys(channel.presenceState()))
+        this.emit('presence', Array.from(this.peerIds))
+      })
+      .on('presence', { event: 'join' }, ({ key }) => {
+        if (this.channel !== channel) return
+        this.peerIds.add(key)
+        this.emit('presence', Array.from(this.peerIds))
+      })
+      .on('presence', { event: 'leave' }, ({ key, currentPresences }) => {
+        if (this.channel !== channel) return
+        // The peer is still here through another presence entry
+        if (currentPresences.length > 0) return
+        this.peerIds.delete(key)
+        this.emit('presence', Array.from(this.peerIds))
+      })
+      .on('broadcast', { event: '*' }, (data: { event: string; payload: unknown }) => {
+        if (this.channel !== channel) return
+        this.emit('message', data.event, data.payload)
+      })
+      .subscribe((status, err) => {
+        // Ignore late callbacks from a channel we already dropped
+        if (this.channel !== channel) return
+
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          // Announce ourselves so peers can track who is in the room
+          channel.track({ timestamp: Date.now() }).catch((trackErr: unknown) => {
+            this.emit('error', trackErr instanceof Error ? trackErr : new Error('Failed to track presence'))
+          })
+          this.emit('status', 'connected')
+        } else if (status === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR) {
+          if (err && UNAUTHORIZED_PATTERN.test(err.message)) {
+            // Retrying will not help until the user's access changes
+            this.close()
+            const message = `Not authorized to join channel ${this.channelName}: ${err.message}`
+            this.emit('status', 'unauthorized', new Error(message))
+            return
+          }
+          this.emit('status', 'error', err)
+        } else if (status === REALTIME_SUBSCRIBE_STATES.TIMED_OUT) {
+          this.emit('status', 'timed-out')
+        } else if (status === REALTIME_SUBSCRIBE_STATES.CLOSED) {
+          this.emit('status', 'closed')
+        }
+      })
+  }
+
+  send(event: string, payload: unknown) {
+    this.channel?.send({
+      type: 'broadcast',
+      event,
+      payload,
+    })
+  }
+
+  onMessage(handler: TransportEventMap['message']) {
+    this.on('message', handler)
+  }
+
+  onStatus(handler: TransportEventMap['status']) {
+    this.on('status', handler)
+  }
+
+  onPresence(handler: TransportEventMap['presence']) {
+    this.on('presence', handler)
+  }
+
+  onError(handler: TransportEventMap['error']) {
+    this.on('error', handler)
+  }
+
+  close() {
+    this.peerIds.clear()
+
+    if (this.channel) {
+      const channel = this.channel
+      this.channel = null
+      this.supabase.removeChannel(channel)
+    }
+  }
+}
+
+export type { RealtimeTransportOptions }
+export { RealtimeTransport }
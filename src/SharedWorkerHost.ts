@@ -0,0 +1,202 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import * as Y from 'yjs'
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate } from 'y-protocols/awareness'
+import { SupabaseProvider } from './SupabaseProvider'
+import type { SupabaseProviderOptions, Status } from './SupabaseProvider'
+
+/**
+ * Options for the provider of every room. Awareness is always enabled, each room needs
+ * its own transport, and rooms connect as soon as a tab attaches, so none of these can be configured here.
+ */
+type SharedWorkerHostOptions = Omit<SupabaseProviderOptions, 'awareness' | 'crossTab' | 'transport' | 'connect'>
+
+/** Messages a tab's SharedWorkerProvider sends to the worker. `id` identifies the attached provider */
+type TabMessage =
+  | { type: 'attach'; id: string; room: string; update: Uint8Array }
+  | { type: 'update'; id: string; update: Uint8Array }
+  | { type: 'awareness'; id: string; update: Uint8Array }
+  | { type: 'detach'; id: string }
+  /** Sent once the tab holds the named Web Lock, which is released when the tab detaches or dies */
+  | { type: 'lock'; id: string; name: string }
+
+/** Messages the worker sends back to an attached provider */
+type WorkerMessage =
+  | { type: 'update'; id: string; update: Uint8Array }
+  | { type: 'awareness'; id: string; update: Uint8Array }
+  | { type: 'status'; id: string; status: Status }
+  | { type: 'sync'; id: string; synced: boolean }
+  | { type: 'error'; id: string; message: string }
+
+/** A worker message before it is addressed to a provider. Distributes over the union so each type keeps its fields */
+type Unaddressed<T> = T extends unknown ? Omit<T, 'id'> : never
+
+type Room = {
+  doc: Y.Doc
+  awareness: Awareness
+  provider: SupabaseProvider
+  /** Attached tab providers by id. The room is torn down when the last one detaches */
+  attachments: Map<string, MessagePort>
+}
+
+/**
+ * Runs inside a SharedWorker and owns the Realtime connection for every room
+ * the browser's tabs have open. Each room gets a single SupabaseProvider,
+ * shared by all the tabs attached to it through SharedWorkerProvider.
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * const supabase = createClient(url, key)
+ * const host = new SharedWorkerHost(supabase, { persistence: true })
+ * self.onconnect = (event) => host.addPort(event.ports[0])
+ * ```
+ */
+class SharedWorkerHost {
+  private supabase: SupabaseClient
+  private options: SharedWorkerHostOptions | undefined
+  private rooms = new Map<string, Room>()
+  /** Room name of every attached provider */
+  private attachments = new Map<string, string>()
+
+  constructor(supabase: SupabaseClient, options?: SharedWorkerHostOptions) {
+    this.supabase = supabase
+    this.options = options
+  }
+
+  /**
+   * Starts serving a tab's port. Call this from the worker's `connect` event.
+   */
+  addPort(port: MessagePort) {
+    port.addEventListener('message', (event: MessageEvent<TabMessage>) => this.handleMessage(port, event.data))
+    port.start()
+  }
+
+  /**
+   * Returns the names of the rooms that have at least one attached tab.
+   */
+  getRooms() {
+    return Array.from(this.rooms.keys())
+  }
+
+  private handleMessage(port: MessagePort, message: TabMessage) {
+    if (message.type === 'attach') {
+      this.attach(port, message.id, message.room, message.update)
+      return
+    }
+
+    const room = this.getRoom(message.id)
+    if (!room) return
+
+    if (message.type === 'update') {
+      Y.applyUpdate(room.doc, message.update, message.id)
+    } else if (message.type === 'awareness') {
+      applyAwarenessUpdate(room.awareness, message.update, message.id)
+    } else if (message.type === 'detach') {
+      this.detach(message.id)
+    } else if (message.type === 'lock') {
+      this.watch(message.id, message.name)
+    }
+  }
+
+  /**
+   * Detaches a tab once its lock is granted to the worker. Tabs that crash or are discarded
+   * never send `detach`, so this is what frees their room.
+   */
+  private watch(id: string, name: string) {
+    if (typeof navigator === 'undefined' || !navigator.locks) return
+
+    navigator.locks.request(name, () => this.detach(id)).catch(() => {})
+  }
+
+  private getRoom(id: string) {
+    const name = this.attachments.get(id)
+    return name === undefined ? undefined : this.rooms.get(name)
+  }
+
+  private attach(port: MessagePort, id: string, name: string, update: Uint8Array) {
+    const room = this.rooms.get(name) ?? this.createRoom(name)
+    room.attachments.set(id, port)
+    this.attachments.set(id, name)
+
+    // Edits the tab made before attaching reach the other tabs through the doc update listener
+    Y.applyUpdate(room.doc, update, id)
+
+    const post = (message: WorkerMessage) => port.postMessage(message)
+    post({ type: 'update', id, update: Y.encodeStateAsUpdate(room.doc) })
+
+    const clients = Array.from(room.awareness.getStates().keys())
+    if (clients.length > 0) {
+      post({ type: 'awareness', id, update: encodeAwarenessUpdate(room.awareness, clients) })
+    }
+
+    post({ type: 'status', id, status: room.provider.getStatus() })
+    post({ type: 'sync', id, synced: room.provider.synced })
+  }
+
+  private detach(id: string) {
+    const name = this.attachments.get(id)
+    if (name === undefined) return
+
+    this.attachments.delete(id)
+    const room = this.rooms.get(name)
+    if (!room) return
+
+    room.attachments.delete(id)
+    if (room.attachments.size > 0) return
+
+    // Last tab left: release the channel
+    this.releaseRoom(name, room)
+  }
+
+  private releaseRoom(name: string, room: Room) {
+    if (this.rooms.get(name) !== room) return
+
+    this.rooms.delete(name)
+    room.attachments.forEach((_port, id) => this.attachments.delete(id))
+    room.provider.destroy()
+    room.awareness.destroy()
+    room.doc.destroy()
+  }
+
+  private createRoom(name: string): Room {
+    const doc = new Y.Doc()
+    const awareness = new Awareness(doc)
+    // The worker itself is not a user, only tabs are
+    awareness.setLocalState(null)
+
+    const provider = new SupabaseProvider(name, doc, this.supabase, { ...this.options, awareness })
+    const room: Room = { doc, awareness, provider, attachments: new Map() }
+
+    // Send every message to all attached tabs except the one it came from
+    const broadcast = (message: Unaddressed<WorkerMessage>, except?: unknown) => {
+      room.attachments.forEach((port, id) => {
+        if (id !== except) port.postMessage({ ...message, id } as WorkerMessage)
+      })
+    }
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      broadcast({ type: 'update', update }, origin)
+    })
+    awareness.on(
+      'update',
+      ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+        const update = encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])
+        broadcast({ type: 'awareness', update }, origin)
+      }
+    )
+    provider.on('status', (status) => broadcast({ type: 'status', status }))
+    provider.on('sync', (synced) => broadcast({ type: 'sync', synced }))
+    provider.on('error', (err) => broadcast({ type: 'error', message: err.message }))
+    provider.on('auth', (event) => {
+      // The provider tears itself down on sign-out. Attached tabs still get its final status,
+      // and tabs attaching later get a new room instead of the dead provider
+      if (event === 'signed-out') this.releaseRoom(name, room)
+    })
+
+    this.rooms.set(name, room)
+    return room
+  }
+}
+
+export type { SharedWorkerHostOptions, TabMessage, WorkerMessage }
+export { SharedWorkerHost }
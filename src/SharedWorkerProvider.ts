@@ -0,0 +1,221 @@
+import * as Y from 'yjs'
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness'
+import { EventEmitter } from './utils'
+import type { Status } from './SupabaseProvider'
+import type { TabMessage, WorkerMessage } from './SharedWorkerHost'
+
+type SharedWorkerProviderOptions = {
+  /** Enable awareness for presence features. Pass true to create new instance, or pass existing Awareness */
+  awareness?: boolean | Awareness
+}
+
+type SharedWorkerProviderEventMap = {
+  message: (update: Uint8Array) => void
+  awareness: (update: Uint8Array) => void
+  status: (status: Status) => void
+  sync: (synced: boolean) => void
+  connect: (provider: SharedWorkerProvider) => void
+  disconnect: (provider: SharedWorkerProvider) => void
+  error: (error: Error) => void
+}
+
+/**
+ * A tab-side proxy for a room hosted by SharedWorkerHost, so that all tabs
+ * of the browser share one Realtime connection per room. It syncs the tab's
+ * document and awareness with the worker, and mirrors the worker provider's
+ * status.
+ *
+ * @example
+ * ```typescript
+ * const worker = new SharedWorker(new URL('./worker.ts', import.meta.url), { type: 'module' })
+ * const provider = new SharedWorkerProvider('my-room', doc, worker.port, { awareness: true })
+ *
+ * provider.on('status', (status) => console.log(status))
+ * ```
+ */
+class SharedWorkerProvider extends EventEmitter<SharedWorkerProviderEventMap> {
+  /** Whether the worker's provider has completed its initial sync */
+  synced: boolean = false
+
+  private id: string
+  private doc: Y.Doc
+  private port: MessagePort
+  private status: Status = 'connecting'
+  private awareness: Awareness | null = null
+  private attached = false
+  private boundBeforeUnload: (() => void) | null = null
+  private releaseLock: (() => void) | null = null
+
+  constructor(room: string, doc: Y.Doc, port: MessagePort, options?: SharedWorkerProviderOptions) {
+    super()
+    this.id = crypto.randomUUID()
+    this.doc = doc
+    this.port = port
+
+    this.handleDocUpdate = this.handleDocUpdate.bind(this)
+    this.handleAwarenessUpdate = this.handleAwarenessUpdate.bind(this)
+    this.handleMessage = this.handleMessage.bind(this)
+
+    if (options?.awareness) {
+      this.awareness = options.awareness instanceof Awareness ? options.awareness : new Awareness(doc)
+      this.awareness.on('update', this.handleAwarenessUpdate)
+    }
+
+    // Several providers may share the port, so listen rather than take over onmessage
+    port.addEventListener('message', this.handleMessage)
+    port.start()
+
+    doc.on('update', this.handleDocUpdate)
+    this.attached = true
+    this.post({ type: 'attach', id: this.id, room, update: Y.encodeStateAsUpdate(doc) })
+
+    if (this.awareness && this.awareness.getLocalState() !== null) {
+      this.post({
+        type: 'awareness',
+        id: this.id,
+        update: encodeAwarenessUpdate(this.awareness, [this.awareness.clientID]),
+      })
+    }
+
+    // The worker waits on this lock, which the browser also releases when the tab
+    // crashes or is discarded without detaching
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      const name = `y-supabase:tab:${this.id}`
+      navigator.locks
+        .request(name, () => {
+          if (!this.attached) return
+          this.post({ type: 'lock', id: this.id, name })
+          return new Promise<void>((resolve) => {
+            this.releaseLock = resolve
+          })
+        })
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error('Failed to acquire tab lock'))
+        })
+    }
+
+    if (typeof window !== 'undefined') {
+      this.boundBeforeUnload = () => this.destroy()
+      window.addEventListener('beforeunload', this.boundBeforeUnload)
+    }
+  }
+
+  private post(message: TabMessage) {
+    this.port.postMessage(message)
+  }
+
+  private handleDocUpdate(update: Uint8Array, origin: unknown) {
+    if (origin === this) return
+
+    this.post({ type: 'update', id: this.id, update })
+  }
+
+  private handleAwarenessUpdate(
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) {
+    if (!this.awareness || origin === this) return
+
+    const update = encodeAwarenessUpdate(this.awareness, [...added, ...updated, ...removed])
+    this.post({ type: 'awareness', id: this.id, update })
+  }
+
+  private handleMessage(event: MessageEvent<WorkerMessage>) {
+    const message = event.data
+    if (message.id !== this.id) return
+
+    try {
+      if (message.type === 'update') {
+        Y.applyUpdate(this.doc, message.update, this)
+        this.emit('message', message.update)
+      } else if (message.type === 'awareness') {
+        if (!this.awareness) return
+        applyAwarenessUpdate(this.awareness, message.update, this)
+        this.emit('awareness', message.update)
+      } else if (message.type === 'status') {
+        this.setStatus(message.status)
+      } else if (message.type === 'sync') {
+        if (message.synced === this.synced) return
+        this.synced = message.synced
+        this.emit('sync', message.synced)
+      } else if (message.type === 'error') {
+        this.emit('error', new Error(message.message))
+      }
+    } catch (err) {
+      this.emit('error', err instanceof Error ? err : new Error('Failed to handle worker message'))
+    }
+  }
+
+  private setStatus(next: Status) {
+    if (next === this.status) return
+
+    this.status = next
+    this.emit('status', next)
+    if (next === 'connected') {
+      this.emit('connect', this)
+    } else if (next !== 'connecting') {
+      this.emit('disconnect', this)
+    }
+  }
+
+  /**
+   * Detaches from the worker and cleans up all resources. The worker closes
+   * the room's channel once the last tab has detached.
+   */
+  destroy() {
+    if (!this.attached) return
+
+    if (this.boundBeforeUnload && typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', this.boundBeforeUnload)
+      this.boundBeforeUnload = null
+    }
+
+    if (this.awareness) {
+      // Posted to the worker by the awareness listener
+      removeAwarenessStates(this.awareness, [this.doc.clientID], 'local')
+      this.awareness.off('update', this.handleAwarenessUpdate)
+    }
+
+    this.doc.off('update', this.handleDocUpdate)
+    this.port.removeEventListener('message', this.handleMessage)
+    this.post({ type: 'detach', id: this.id })
+    this.attached = false
+    this.releaseLock?.()
+    this.releaseLock = null
+  }
+
+  /**
+   * Returns the connection status of the worker's provider.
+   * @returns The current status: 'connecting', 'connected', 'reconnecting', 'offline', 'failed', 'disconnected', or 'unauthorized'
+   */
+  getStatus() {
+    return this.status
+  }
+
+  /**
+   * Resolves once the worker's provider is synced.
+   */
+  whenSynced(): Promise<void> {
+    if (this.synced) return Promise.resolve()
+
+    return new Promise((resolve) => {
+      const listener = (synced: boolean) => {
+        if (!synced) return
+        this.off('sync', listener)
+        resolve()
+      }
+      this.on('sync', listener)
+    })
+  }
+
+  /**
+   * Returns the Awareness instance if awareness was enabled.
+   * @returns The Awareness instance or null if awareness is disabled
+   */
+  getAwareness() {
+    return this.awareness
+  }
+}
+
+export type { SharedWorkerProviderOptions }
+export { SharedWorkerProvider }
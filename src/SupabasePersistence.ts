@@ -1,6 +1,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import * as Y from 'yjs'
-import { EventEmitter, encodeUpdate, decodeUpdate } from './utils'
+import { EventEmitter, resolveCodec, encodeStoredUpdate, decodeStoredUpdate } from './utils'
+import type { CompressionCodec, EncryptionKey } from './utils'
 
 export type SupabasePersistenceOptions = {
   /** Table name to store document state. Default: 'yjs_documents' */
@@ -13,6 +14,35 @@ export type SupabasePersistenceOptions = {
   stateColumn?: string
   /** Debounce timeout in ms before persisting updates. Default: 1000 */
   storeTimeout?: number
+  /** Table for the append-only update log. When set, updates are appended here instead of rewriting the snapshot. Default: undefined */
+  updatesTable?: string
+  /** Column name for the update log sequence (an identity column). Default: 'seq' */
+  seqColumn?: string
+  /** Column name for the incremental update in the log. Default: 'update' */
+  updateColumn?: string
+  /** Column name for the snapshot version in update log mode, bumped by every compaction. Default: 'version' */
+  versionColumn?: string
+  /** Compact the log into the snapshot once it holds this many updates. Default: 100 */
+  compactAfterUpdates?: number
+  /** Compact the log into the snapshot once its encoded size exceeds this many bytes. Default: 1048576 */
+  compactAfterBytes?: number
+  /** Compress persisted state. Pass true for deflate, or pass a custom codec. Default: false */
+  compression?: boolean | CompressionCodec
+  /** Encrypt persisted state with AES-GCM. Pass a CryptoKey, or a function returning the current key. Default: undefined */
+  encryption?: EncryptionKey
+  /** Load persisted state, but never write to the database. Default: false */
+  readOnly?: boolean
+}
+
+type LogRow = {
+  seq: number
+  update: Uint8Array
+}
+
+type Snapshot = {
+  state: Uint8Array | null
+  /** Only read in update log mode */
+  version: number
 }
 
 type PersistenceEventMap = {
@@ -25,6 +55,12 @@ const DEFAULT_SCHEMA = 'public'
 const DEFAULT_ROOM_COLUMN = 'room'
 const DEFAULT_STATE_COLUMN = 'state'
 const DEFAULT_STORE_TIMEOUT = 1000
+const DEFAULT_SEQ_COLUMN = 'seq'
+const DEFAULT_UPDATE_COLUMN = 'update'
+const DEFAULT_VERSION_COLUMN = 'version'
+const DEFAULT_COMPACT_AFTER_UPDATES = 100
+const DEFAULT_COMPACT_AFTER_BYTES = 1024 * 1024
+const MAX_COMPACT_ATTEMPTS = 5
 
 export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
   doc: Y.Doc
@@ -37,7 +73,22 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
   private roomColumn: string
   private stateColumn: string
   private storeTimeout: number
+  private updatesTable: string | null
+  private seqColumn: string
+  private updateColumn: string
+  private versionColumn: string
+  private compactAfterUpdates: number
+  private compactAfterBytes: number
+  private codec: CompressionCodec | null
+  private encryption: EncryptionKey | null
+  private readOnly: boolean
+  /** Set when persisted state could not be read. Writing would overwrite it, so nothing is written */
+  private loadFailed = false
   private storeTimeoutId: ReturnType<typeof setTimeout> | null = null
+  private pendingUpdates: Uint8Array[] = []
+  private logCount = 0
+  private logBytes = 0
+  private compacting: Promise<void> | null = null
   private destroyed: boolean = false
   private _storeUpdate: (update: Uint8Array, origin: unknown) => void
   private _onDocDestroy: () => void
@@ -52,15 +103,27 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
     this.roomColumn = options?.roomColumn ?? DEFAULT_ROOM_COLUMN
     this.stateColumn = options?.stateColumn ?? DEFAULT_STATE_COLUMN
     this.storeTimeout = options?.storeTimeout ?? DEFAULT_STORE_TIMEOUT
+    this.updatesTable = options?.updatesTable ?? null
+    this.seqColumn = options?.seqColumn ?? DEFAULT_SEQ_COLUMN
+    this.updateColumn = options?.updateColumn ?? DEFAULT_UPDATE_COLUMN
+    this.versionColumn = options?.versionColumn ?? DEFAULT_VERSION_COLUMN
+    this.compactAfterUpdates = options?.compactAfterUpdates ?? DEFAULT_COMPACT_AFTER_UPDATES
+    this.compactAfterBytes = options?.compactAfterBytes ?? DEFAULT_COMPACT_AFTER_BYTES
+    this.codec = resolveCodec(options?.compression)
+    this.encryption = options?.encryption ?? null
+    this.readOnly = options?.readOnly ?? false
 
-    this._storeUpdate = (_update: Uint8Array, origin: unknown) => {
-      if (origin !== this && !this.destroyed) {
+    this._storeUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin !== this && !this.destroyed && this.writable) {
+        if (this.updatesTable) {
+          this.pendingUpdates.push(update)
+        }
         if (this.storeTimeoutId !== null) {
           clearTimeout(this.storeTimeoutId)
         }
         this.storeTimeoutId = setTimeout(() => {
           this.storeTimeoutId = null
-          this.storeState().catch((err) => {
+          this.store().catch((err) => {
             this.emit('error', err instanceof Error ? err : new Error('Failed to persist state'))
           })
         }, this.storeTimeout)
@@ -79,34 +142,40 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
     this.fetchAndApply()
   }
 
+  private get writable() {
+    return !this.readOnly && !this.loadFailed
+  }
+
   private async fetchAndApply() {
+    let loadedState: Uint8Array | undefined
     try {
-      const { data, error } = await this.supabase
-        .schema(this.schema)
-        .from(this.table)
-        .select(this.stateColumn)
-        .eq(this.roomColumn, this.name)
-        .single()
+      loadedState = await this.load()
+    } catch (err) {
+      // Without knowing what is stored, any write could overwrite it
+      this.loadFailed = true
+      this.emit('error', err instanceof Error ? err : new Error('Failed to fetch persisted state'))
+    }
 
-      if (error) {
-        // PGRST116 = "no rows returned" from .single() — not an error, just no persisted state yet
-        if (error.code !== 'PGRST116') {
-          this.emit('error', new Error(`Failed to fetch persisted state: ${error.message}`))
-        }
-      } else if (!this.destroyed && data) {
-        const state = (data as unknown as Record<string, string>)[this.stateColumn]
-        if (state) {
-          const update = decodeUpdate(state)
-          Y.applyUpdate(this.doc, update, this)
-        }
+    try {
+      if (!this.destroyed && loadedState) {
+        Y.applyUpdate(this.doc, loadedState, this)
       }
 
-      // Persist current doc state (merges local + loaded state)
-      if (!this.destroyed) {
-        await this.storeState()
+      if (!this.destroyed && this.writable) {
+        if (this.updatesTable) {
+          // Append whatever the local doc has that the persisted state does not
+          const missing = loadedState
+            ? Y.encodeStateAsUpdate(this.doc, Y.encodeStateVectorFromUpdate(loadedState))
+            : Y.encodeStateAsUpdate(this.doc)
+          this.pendingUpdates = missing.length > 2 ? [missing] : []
+          await this.appendUpdates()
+        } else {
+          // Persist current doc state (merges local + loaded state)
+          await this.storeState()
+        }
       }
     } catch (err) {
-      this.emit('error', err instanceof Error ? err : new Error('Failed to fetch persisted state'))
+      this.emit('error', err instanceof Error ? err : new Error('Failed to persist state'))
     }
 
     if (!this.destroyed) {
@@ -115,9 +184,207 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
     }
   }
 
+  /**
+   * Reads and decodes the snapshot and, in update log mode, the log entries after it.
+   */
+  private async load() {
+    // Read the log first: entries another client compacts in the meantime are then in the
+    // snapshot we read next, instead of in neither read
+    const rows = this.updatesTable ? await this.fetchLog() : []
+    const snapshot = await this.fetchSnapshot()
+
+    const loaded = snapshot?.state ? [snapshot.state, ...rows.map((row) => row.update)] : rows.map((row) => row.update)
+    return loaded.length > 1 ? Y.mergeUpdates(loaded) : loaded[0]
+  }
+
+  /**
+   * Reads the snapshot row, or returns null when the room has none yet.
+   */
+  private async fetchSnapshot(): Promise<Snapshot | null> {
+    const { data, error } = await this.supabase
+      .schema(this.schema)
+      .from(this.table)
+      .select(this.updatesTable ? `${this.stateColumn}, ${this.versionColumn}` : this.stateColumn)
+      .eq(this.roomColumn, this.name)
+      .single()
+
+    // PGRST116 = "no rows returned" from .single() — not an error, just no persisted state yet
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch persisted state: ${error.message}`)
+    }
+    if (error || !data) return null
+
+    const row = data as unknown as Record<string, string | number | null>
+    const state = row[this.stateColumn] as string | null
+    return {
+      state: state ? await decodeStoredUpdate(state, this.codec, this.encryption) : null,
+      version: Number(row[this.versionColumn] ?? 0),
+    }
+  }
+
+  private async fetchLog(): Promise<LogRow[]> {
+    const { data, error } = await this.supabase
+      .schema(this.schema)
+      .from(this.updatesTable!)
+      .select(`${this.seqColumn}, ${this.updateColumn}`)
+      .eq(this.roomColumn, this.name)
+      .order(this.seqColumn, { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch update log: ${error.message}`)
+    }
+
+    const rows = (data ?? []) as unknown as Record<string, string | number>[]
+    this.logCount = rows.length
+    this.logBytes = 0
+
+    return Promise.all(
+      rows.map(async (row) => {
+        const encoded = row[this.updateColumn] as string
+        this.logBytes += encoded.length
+        const update = await decodeStoredUpdate(encoded, this.codec, this.encryption)
+        return { seq: Number(row[this.seqColumn]), update }
+      })
+    )
+  }
+
+  private async store() {
+    if (!this.writable) return
+    return this.updatesTable ? this.appendUpdates() : this.storeState()
+  }
+
+  private async appendUpdates() {
+    if (this.pendingUpdates.length === 0) return
+
+    const update =
+      this.pendingUpdates.length === 1 ? this.pendingUpdates[0] : Y.mergeUpdates(this.pendingUpdates)
+    this.pendingUpdates = []
+
+    let encoded: string
+    try {
+      encoded = await encodeStoredUpdate(update, this.codec, this.encryption)
+
+      const { error } = await this.supabase
+        .schema(this.schema)
+        .from(this.updatesTable!)
+        .insert({
+          [this.roomColumn]: this.name,
+          [this.updateColumn]: encoded,
+        })
+
+      if (error) {
+        throw new Error(`Failed to append update: ${error.message}`)
+      }
+    } catch (err) {
+      // Keep the update so the next store retries it
+      this.pendingUpdates.unshift(update)
+      throw err
+    }
+
+    this.logCount++
+    this.logBytes += encoded.length
+
+    if (this.logCount >= this.compactAfterUpdates || this.logBytes >= this.compactAfterBytes) {
+      this.compact().catch((err) => {
+        this.emit('error', err instanceof Error ? err : new Error('Failed to compact update log'))
+      })
+    }
+  }
+
+  /**
+   * Folds the update log into the snapshot row and deletes the folded log entries.
+   * Runs automatically once the log passes the compaction thresholds.
+   */
+  async compact() {
+    if (!this.updatesTable || !this.writable) return
+    if (!this.compacting) {
+      this.compacting = this.compactLog().finally(() => {
+        this.compacting = null
+      })
+    }
+    return this.compacting
+  }
+
+  private async compactLog() {
+    let rows: LogRow[] = []
+    for (let attempt = 1; ; attempt++) {
+      rows = await this.fetchLog()
+      if (rows.length === 0) return
+
+      // Merge with the full local state so entries we have not seen yet are kept too, and with
+      // the stored snapshot so we don't overwrite entries another client compacted into it
+      const snapshot = await this.fetchSnapshot()
+      const state = Y.mergeUpdates([
+        Y.encodeStateAsUpdate(this.doc),
+        ...(snapshot?.state ? [snapshot.state] : []),
+        ...rows.map((row) => row.update),
+      ])
+
+      // Fails if another client compacted since we read the snapshot. Start over from what it wrote
+      if (await this.replaceSnapshot(state, snapshot)) break
+      if (attempt === MAX_COMPACT_ATTEMPTS) {
+        throw new Error('Failed to compact update log: the snapshot kept changing')
+      }
+    }
+
+    // Delete exactly what was folded. A range could catch entries committed after we read the log
+    const { error } = await this.supabase
+      .schema(this.schema)
+      .from(this.updatesTable!)
+      .delete()
+      .eq(this.roomColumn, this.name)
+      .in(
+        this.seqColumn,
+        rows.map((row) => row.seq)
+      )
+
+    if (error) {
+      throw new Error(`Failed to compact update log: ${error.message}`)
+    }
+
+    this.logCount = Math.max(0, this.logCount - rows.length)
+    this.logBytes = 0
+  }
+
+  /**
+   * Writes the snapshot only if it is still the version that was read.
+   * @returns Whether the snapshot was written
+   */
+  private async replaceSnapshot(state: Uint8Array, previous: Snapshot | null) {
+    const encoded = await encodeStoredUpdate(state, this.codec, this.encryption)
+    const table = this.supabase.schema(this.schema).from(this.table)
+
+    if (!previous) {
+      const { error } = await table.insert({
+        [this.roomColumn]: this.name,
+        [this.stateColumn]: encoded,
+        [this.versionColumn]: 1,
+      })
+
+      // 23505 = unique violation: another client created the snapshot first
+      if (error?.code === '23505') return false
+      if (error) {
+        throw new Error(`Failed to persist state: ${error.message}`)
+      }
+      return true
+    }
+
+    const { data, error } = await table
+      .update({ [this.stateColumn]: encoded, [this.versionColumn]: previous.version + 1 })
+      .eq(this.roomColumn, this.name)
+      .eq(this.versionColumn, previous.version)
+      .select(this.roomColumn)
+
+    if (error) {
+      throw new Error(`Failed to persist state: ${error.message}`)
+    }
+    return (data ?? []).length > 0
+  }
+
   private async storeState() {
-    const state = Y.encodeStateAsUpdate(this.doc)
-    const encoded = encodeUpdate(state)
+    if (!this.writable) return
+
+    const encoded = await encodeStoredUpdate(Y.encodeStateAsUpdate(this.doc), this.codec, this.encryption)
 
     const { error } = await this.supabase
       .schema(this.schema)
@@ -145,11 +412,15 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
     this.doc.off('destroy', this._onDocDestroy)
     this.destroyed = true
     if (hasPendingWrite) {
-      await this.storeState()
+      await this.store()
     }
   }
 
   async clearData() {
+    if (this.readOnly) {
+      throw new Error('Cannot clear persisted data in read-only mode')
+    }
+
     await this.destroy()
     const { error } = await this.supabase
       .schema(this.schema)
@@ -160,5 +431,17 @@ export class SupabasePersistence extends EventEmitter<PersistenceEventMap> {
     if (error) {
       throw new Error(`Failed to clear persisted data: ${error.message}`)
     }
+
+    if (this.updatesTable) {
+      const { error: logError } = await this.supabase
+        .schema(this.schema)
+        .from(this.updatesTable)
+        .delete()
+        .eq(this.roomColumn, this.name)
+
+      if (logError) {
+        throw new Error(`Failed to clear update log: ${logError.message}`)
+      }
+    }
   }
 }
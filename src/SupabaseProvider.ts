@@ -1,5 +1,4 @@
-import { RealtimeChannel, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js'
-import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SupabaseClient, RealtimeChannelOptions, AuthChangeEvent, Session } from '@supabase/supabase-js'
 import * as Y from 'yjs'
 import {
   Awareness,
@@ -7,50 +6,260 @@ import {
   encodeAwarenessUpdate,
   removeAwarenessStates,
 } from 'y-protocols/awareness'
-import { EventEmitter, encodeUpdate, decodeUpdate } from './utils'
+import {
+  EventEmitter,
+  encodeUpdate,
+  decodeUpdate,
+  resolveCodec,
+  getCodec,
+  compressUpdate,
+  encryptUpdate,
+  decryptUpdate,
+  canonicalJson,
+  signMessage,
+  verifyMessage,
+  generateIdentityKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  signIdentity,
+  verifyIdentity,
+} from './utils'
+import type { CompressionCodec, EncryptionKey, SigningKey } from './utils'
 import { SupabasePersistence } from './SupabasePersistence'
 import type { SupabasePersistenceOptions } from './SupabasePersistence'
+import { RealtimeTransport } from './RealtimeTransport'
+import type { Transport, TransportStatus } from './Transport'
 
 type SupabaseProviderOptions = {
   broadcastThrottleMs?: number
+  /** With throttling, send the batch early once it holds this many bytes. Default: Infinity */
+  maxBatchBytes?: number
+  /** With throttling, send the batch early once it holds this many updates. Default: Infinity */
+  maxBatchUpdates?: number
+  /** With throttling, send the first update right away and only batch the ones that follow. Default: false */
+  broadcastLeadingEdge?: boolean
+  /** Connect in the constructor. Set to false to call `connect()` later, e.g. once the user has signed in. Default: true */
+  connect?: boolean
   /** Enable automatic reconnection on disconnect. Default: true */
   autoReconnect?: boolean
   /** Maximum reconnection attempts. Default: Infinity */
   maxReconnectAttempts?: number
-  /** Initial reconnection delay in ms. Default: 1000 */
+  /** Initial reconnection delay in ms, for the default strategy. Default: 1000 */
   reconnectDelay?: number
-  /** Maximum reconnection delay in ms. Default: 30000 */
+  /** Maximum reconnection delay in ms, for the default strategy. Default: 30000 */
   maxReconnectDelay?: number
+  /**
+   * Returns the delay in ms before reconnect attempt `attempt` (starting at 1), or null to give up.
+   * Default: exponential backoff from `reconnectDelay` up to `maxReconnectDelay`, with jitter
+   */
+  reconnectStrategy?: ReconnectStrategy
   /** Enable awareness for presence features. Pass true to create new instance, or pass existing Awareness */
   awareness?: boolean | Awareness
   /** Enable persistence. Pass true for defaults, or pass options to customize. */
   persistence?: boolean | SupabasePersistenceOptions
+  /** Maximum encoded update size per broadcast message. Larger updates are sent in chunks. Default: 200000 */
+  maxPayloadBytes?: number
+  /** Time in ms to wait for the remaining chunks of an update before discarding it. Default: 10000 */
+  chunkTimeoutMs?: number
+  /** Largest encoded update reassembled from a peer's chunks. Larger chunked updates are dropped. Default: 50000000 */
+  maxUpdateBytes?: number
+  /** Compress update and awareness payloads. Pass true for deflate, or pass a custom codec. Default: false */
+  compression?: boolean | CompressionCodec
+  /**
+   * End-to-end encrypt updates, state vectors, awareness and persisted state with AES-GCM.
+   * Pass a CryptoKey, or a function returning the current key. Every peer needs the same key. Default: undefined
+   */
+  encryption?: EncryptionKey
+  /**
+   * Maximum random delay in ms before answering a peer's state vector. A pending reply is
+   * dropped if another peer's reply already covers it. Set to 0 to reply immediately. Default: 100
+   */
+  syncReplyDelayMs?: number
+  /** Time in ms to wait for a peer's reply before treating the room as empty and marking the provider synced. Default: 2000 */
+  syncTimeoutMs?: number
+  /** Periodically broadcast our state vector so peers can send updates we missed. Disabled by default */
+  resyncIntervalMs?: number
+  /** Transport that carries messages between peers. Default: a RealtimeTransport on the room's Realtime channel */
+  transport?: Transport
+  /** Use a private Realtime channel, authorized through Realtime Authorization. Ignored with a custom transport. Default: false */
+  private?: boolean
+  /** Extra config for the Realtime channel, passed to `supabase.channel()`. Ignored with a custom transport */
+  channelConfig?: RealtimeChannelOptions['config']
+  /** Also sync updates and awareness with other tabs of the same origin over a BroadcastChannel. Default: false */
+  crossTab?: boolean
+  /**
+   * HMAC-SHA256 key shared by the room. Every message is signed, and messages that are unsigned,
+   * badly signed, too old or replayed are dropped. Pass a CryptoKey, or a function returning the current key. Default: undefined
+   */
+  signingKey?: SigningKey
+  /**
+   * Sign every message as the Supabase auth session's user, with a device key registered in a table
+   * that only lets users add keys as themselves. Messages not signed this way are dropped.
+   * Pass true for the default table, or its location. Default: false
+   */
+  authIdentity?: boolean | AuthIdentityOptions
+  /** With `signingKey` or `authIdentity`, drop messages whose timestamp is further than this many ms from our clock. Default: 30000 */
+  maxMessageAgeMs?: number
+  /**
+   * Receive and apply remote updates and awareness, but never send document updates, never answer
+   * state vectors with diffs, and never write through persistence. Local edits stay local. Default: false
+   */
+  readOnly?: boolean
+  /**
+   * Checks each remote update before it is applied. Return false (or a promise of false) to reject it,
+   * which emits `rejected` instead of applying it. Updates from other tabs with `crossTab` are not checked.
+   */
+  validateUpdate?: (update: Uint8Array, sender: PayloadUser) => boolean | Promise<boolean>
+}
+
+/**
+ * Connection states. `reconnecting` and `offline` wait for a scheduled reconnect (`offline` while the
+ * browser reports no network), `failed` means `maxReconnectAttempts` ran out, and `disconnected`
+ * that no reconnect will happen on its own.
+ */
+type Status = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'offline' | 'failed' | 'unauthorized'
+
+type ReconnectStrategy = (attempt: number, lastError: Error | undefined) => number | null
+
+/** Auth session changes the provider reacts to */
+type AuthEvent = 'token-refreshed' | 'signed-out'
+
+/** Location of the table of device public keys used by `authIdentity` */
+type AuthIdentityOptions = {
+  /** Table with `id`, `user_id` and `public_key` columns. Default: 'yjs_identity_keys' */
+  table?: string
+  /** Schema name. Default: 'public' */
+  schema?: string
+}
+
+type PayloadUser = {
+  id: string
+  /** Supabase auth user id of the sender, verified against its device key. Only set with `authIdentity` */
+  authId?: string
+}
+
+/** Fields every message carries */
+type SignedPayload = {
+  user: PayloadUser
+  timestamp: number
+  /** Id of the sender's registered device key, with `authIdentity` */
+  keyId?: string
+  /** ECDSA signature with the device key over the event name and the rest of the payload, with `authIdentity` */
+  userSignature?: string
+  /** HMAC over the event name and the rest of the payload, with `signingKey` */
+  signature?: string
 }
 
-type Status = 'connecting' | 'connected' | 'disconnected'
+/** Our auth user and the device key we registered for it */
+type Identity = {
+  authId: string
+  keyId: string
+  privateKey: CryptoKey
+}
+
+/** A peer device's public key and the auth user it was registered by */
+type PeerKey = {
+  authId: string
+  publicKey: CryptoKey
+}
 
 type RealtimeYPayload = {
   update: string
-  user: {
+  user: PayloadUser
+  timestamp: number
+  /** Recipient's user id for messages meant for a single peer. Omitted for room-wide messages */
+  to?: string
+  /** Per-session sequence number of room-wide updates, used to detect dropped messages */
+  seq?: number
+  /** The sender's connection session; sequence numbers restart with each session */
+  session?: string
+  /** Name of the codec the update was compressed with, if any */
+  compression?: string
+  /** Whether the update is AES-GCM encrypted */
+  encrypted?: boolean
+  /** Present when the update was split across several messages */
+  chunk?: {
     id: string
+    index: number
+    count: number
   }
-  timestamp: number
+}
+
+/** Messages exchanged with other tabs. Binary data survives structured cloning, so nothing is base64-encoded */
+type CrossTabMessage =
+  | { type: 'update'; update: Uint8Array }
+  | { type: 'awareness'; update: Uint8Array }
+  | { type: 'state-vector'; stateVector: Uint8Array }
+
+type PendingReply = {
+  /** The requester's state vector, advanced by other peers' replies we overheard */
+  stateVector: Map<number, number>
+  timeout: ReturnType<typeof setTimeout>
+}
+
+type ChunkSet = {
+  parts: string[]
+  received: number
+  bytes: number
+  timeout: ReturnType<typeof setTimeout>
 }
 
 const UPDATE_EVENT = 'y-supabase-update'
 const STATE_VECTOR_EVENT = 'y-supabase-state-vector'
 const AWARENESS_EVENT = 'y-supabase-awareness'
+const CROSS_TAB_CHANNEL_PREFIX = 'y-supabase:'
+
+const DEFAULT_MAX_PAYLOAD_BYTES = 200000
+const DEFAULT_CHUNK_TIMEOUT = 10000
+const DEFAULT_MAX_UPDATE_BYTES = 50000000
+const DEFAULT_SYNC_REPLY_DELAY = 100
+const DEFAULT_SYNC_TIMEOUT = 2000
+const DEFAULT_MAX_MESSAGE_AGE = 30000
+const DEFAULT_IDENTITY_TABLE = 'yjs_identity_keys'
+const DEFAULT_IDENTITY_SCHEMA = 'public'
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false
+
+/** Whether a peer's payload has the fields every message carries, before trusting any of them */
+const isSignedPayload = (payload: unknown): payload is SignedPayload => {
+  if (typeof payload !== 'object' || payload === null) return false
+  const { user, timestamp } = payload as Partial<SignedPayload>
+  return typeof user === 'object' && user !== null && typeof user.id === 'string' && typeof timestamp === 'number'
+}
 
 type StateVectorPayload = {
   stateVector: string
-  user: { id: string }
+  user: PayloadUser
   timestamp: number
+  /** Recipient's user id when replying to a specific peer's state vector */
+  to?: string
+  /** Changes on every connect, so peers re-sync a client that reconnected with the same user id */
+  session?: string
+  /** Set on periodic anti-entropy broadcasts and gap recovery requests, which are answered with a diff only */
+  resync?: boolean
+  /** Whether the state vector is AES-GCM encrypted */
+  encrypted?: boolean
+}
+
+/** How an outgoing payload was transformed before base64 encoding */
+type PayloadEncoding = {
+  compression?: string
+  encrypted?: boolean
 }
 
 type ProviderEventMap = {
   message: (update: Uint8Array) => void
   awareness: (update: Uint8Array) => void
   status: (status: Status) => void
+  sync: (synced: boolean) => void
+  'peer-join': (peerId: string) => void
+  'peer-leave': (peerId: string) => void
+  'gap-detected': (gap: { peerId: string; expected: number; received: number }) => void
+  'pending-change': (hasPendingUpdates: boolean) => void
+  'reconnect-scheduled': (reconnect: { attempt: number; delay: number }) => void
+  'reconnect-exhausted': (attempts: number) => void
+  rejected: (update: Uint8Array, sender: PayloadUser) => void
+  auth: (event: AuthEvent) => void
   connect: (provider: SupabaseProvider) => void
   disconnect: (provider: SupabaseProvider) => void
   error: (error: Error) => void
@@ -60,7 +269,8 @@ type ProviderEventMap = {
  * A Yjs provider that syncs document updates through Supabase Realtime.
  *
  * This provider enables real-time collaboration by broadcasting Yjs document
- * updates to other connected clients via Supabase Realtime channels.
+ * updates to other connected clients via Supabase Realtime channels, or
+ * through any other `Transport` passed in the options.
  *
  * @example
  * ```typescript
@@ -73,30 +283,69 @@ type ProviderEventMap = {
  * ```
  */
 class SupabaseProvider extends EventEmitter<ProviderEventMap> {
-  private channelName: string
+  /** Whether the initial exchange with peers (and persistence, if enabled) has completed */
+  synced: boolean = false
+
   private doc: Y.Doc
-  private supabase: SupabaseClient
-  private channel: RealtimeChannel | null = null
+  private transport: Transport
+  /** Whether the transport is open, from connect() until destroy() */
+  private transportOpen = false
+  /** Messages still being encoded or signed. The transport stays open for them after destroy() or disconnect() */
+  private outgoing = new Set<Promise<void>>()
+  /** Whether the transport is closing once `outgoing` has drained */
+  private draining = false
   private status: Status = 'connecting'
   private userId: string
   private broadcastTimeout: ReturnType<typeof setTimeout> | null = null
   private pendingUpdates: Uint8Array[] = []
+  private pendingBytes = 0
+  /** Local updates made while disconnected, sent on the next successful subscribe */
+  private offlineUpdates: Uint8Array[] = []
   private options: SupabaseProviderOptions | undefined
-  private syncedPeers = new Set<string>()
+  /** Peers we already exchanged state vectors with, mapped to the session we synced */
+  private syncedPeers = new Map<string, string | undefined>()
+  private sessionId = ''
+  private sequence = 0
+  /** Last sequence number seen from each sender, per sender session */
+  private receivedSequences = new Map<string, { session: string | undefined; seq: number }>()
+  private peers = new Set<string>()
+  private chunkSets = new Map<string, ChunkSet>()
+  private pendingReplies = new Map<string, PendingReply>()
+  private peerSynced = false
+  private syncTimeout: ReturnType<typeof setTimeout> | null = null
+  private resyncInterval: ReturnType<typeof setInterval> | null = null
+  private codec: CompressionCodec | null
+  private encryption: EncryptionKey | null
   private awareness: Awareness | null = null
   private persistence: SupabasePersistence | null = null
+  private crossTabChannel: BroadcastChannel | null = null
+  private supabase: SupabaseClient
+  private signingKey: SigningKey | null
+  /** Our auth user and device key, registered once with `authIdentity` */
+  private identity: Promise<Identity> | null = null
+  /** Public keys of peer devices by key id, looked up once each */
+  private peerKeys = new Map<string, Promise<PeerKey | null>>()
+  /** Auth user ids of peers, from their verified messages */
+  private peerAuthIds = new Map<string, string>()
+  /** Signatures of recently verified messages, with their timestamps, to drop replays */
+  private seenSignatures = new Map<string, number>()
+  private authSubscription: { unsubscribe: () => void } | null = null
   private reconnectAttempts = 0
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null
   private shouldReconnect = true
   private boundBeforeUnload: (() => void) | null = null
+  private boundOnline: (() => void) | null = null
+  private boundVisibilityChange: (() => void) | null = null
 
   constructor(channelName: string, doc: Y.Doc, supabase: SupabaseClient, options?: SupabaseProviderOptions) {
     super()
-    this.channelName = channelName
     this.doc = doc
-    this.supabase = supabase
     this.options = options
     this.userId = crypto.randomUUID()
+    this.codec = resolveCodec(options?.compression)
+    this.encryption = options?.encryption ?? null
+    this.signingKey = options?.signingKey ?? null
+    this.supabase = supabase
 
     if (options?.awareness) {
       this.awareness = options.awareness instanceof Awareness ? options.awareness : new Awareness(doc)
@@ -106,17 +355,56 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
 
     if (options?.persistence) {
       const persistenceOptions = typeof options.persistence === 'object' ? options.persistence : undefined
-      this.persistence = new SupabasePersistence(channelName, doc, supabase, persistenceOptions)
+      this.persistence = new SupabasePersistence(channelName, doc, supabase, {
+        compression: options.compression,
+        encryption: options.encryption,
+        ...persistenceOptions,
+        readOnly: options.readOnly || persistenceOptions?.readOnly,
+      })
+      this.persistence.on('synced', () => this.updateSynced())
     }
 
     this.handleDocUpdate = this.handleDocUpdate.bind(this)
 
+    this.transport =
+      options?.transport ??
+      new RealtimeTransport(channelName, supabase, { private: options?.private, config: options?.channelConfig })
+    this.transport.onMessage((event, payload) => this.handleMessage(event, payload))
+    this.transport.onStatus((status, err) => this.handleTransportStatus(status, err))
+    this.transport.onPresence?.((peerIds) => this.handlePresence(peerIds))
+    this.transport.onError?.((err) => this.emit('error', err))
+
+    if (options?.crossTab && typeof BroadcastChannel !== 'undefined') {
+      this.crossTabChannel = new BroadcastChannel(CROSS_TAB_CHANNEL_PREFIX + channelName)
+      this.crossTabChannel.onmessage = (event: MessageEvent<CrossTabMessage>) => this.handleCrossTabMessage(event.data)
+
+      // Catch up with edits other tabs made, even while offline
+      this.postCrossTab({ type: 'state-vector', stateVector: Y.encodeStateVector(doc) })
+    }
+
     if (typeof window !== 'undefined') {
       this.boundBeforeUnload = () => this.destroy()
       window.addEventListener('beforeunload', this.boundBeforeUnload)
+
+      // Don't sit out the backoff once the network is back or the user returns to the page
+      this.boundOnline = () => this.resumeReconnect()
+      window.addEventListener('online', this.boundOnline)
     }
 
-    this.connect()
+    if (typeof document !== 'undefined') {
+      this.boundVisibilityChange = () => {
+        if (document.visibilityState === 'visible') this.resumeReconnect()
+      }
+      document.addEventListener('visibilitychange', this.boundVisibilityChange)
+    }
+
+    if (options?.connect ?? true) {
+      this.connect()
+    } else {
+      // Buffer edits made before connect() like offline edits
+      this.status = 'disconnected'
+      this.doc.on('update', this.handleDocUpdate)
+    }
   }
 
   private setStatus(next: Status) {
@@ -124,78 +412,524 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
     this.emit('status', next)
   }
 
-  private broadcastUpdate(update: Uint8Array, event = UPDATE_EVENT) {
-    if (!this.channel) return
+  private updateSynced() {
+    const next = this.peerSynced && (!this.persistence || this.persistence.synced)
+    if (next === this.synced) return
+
+    this.synced = next
+    this.emit('sync', next)
+  }
 
-    const payload: RealtimeYPayload = {
-      update: encodeUpdate(update),
-      user: { id: this.userId },
-      timestamp: Date.now(),
+  private markPeerSynced() {
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout)
+      this.syncTimeout = null
     }
+    if (this.peerSynced) return
 
-    this.channel.send({
-      type: 'broadcast',
-      event,
-      payload,
+    this.peerSynced = true
+    this.updateSynced()
+  }
+
+  private startResync() {
+    const interval = this.options?.resyncIntervalMs ?? 0
+    if (interval <= 0) return
+
+    this.stopResync()
+    this.resyncInterval = setInterval(() => this.sendStateVector(undefined, true), interval)
+  }
+
+  private stopResync() {
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval)
+      this.resyncInterval = null
+    }
+  }
+
+  private resetSync() {
+    this.stopResync()
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout)
+      this.syncTimeout = null
+    }
+    this.peerSynced = false
+    this.updateSynced()
+  }
+
+  private broadcastUpdate(update: Uint8Array, event = UPDATE_EVENT, to?: string) {
+    if (!this.transportOpen) return
+
+    this.encodePayload(update, (encoded, encoding) => this.sendUpdate(encoded, event, encoding, to))
+  }
+
+  /**
+   * Base64-encodes an outgoing payload, compressing and then encrypting it first when enabled.
+   * Calls `send` synchronously when there is nothing to compress or encrypt.
+   * @param compress - Set to false for payloads too small to benefit, like state vectors
+   */
+  private encodePayload(
+    data: Uint8Array,
+    send: (encoded: string, encoding: PayloadEncoding) => void,
+    compress = true
+  ) {
+    const codec = compress ? this.codec : null
+    const encryption = this.encryption
+
+    if (!codec && !encryption) {
+      send(encodeUpdate(data), {})
+      return
+    }
+
+    const compressed = codec ? compressUpdate(data, codec) : Promise.resolve({ data, compression: undefined })
+    this.trackOutgoing(
+      compressed
+        .then(async ({ data: compressedData, compression }) => {
+          const encoded = encryption ? await encryptUpdate(compressedData, encryption) : compressedData
+          send(encodeUpdate(encoded), { compression, encrypted: encryption ? true : undefined })
+        })
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error('Failed to encode payload'))
+        })
+    )
+  }
+
+  private trackOutgoing(promise: Promise<void>) {
+    this.outgoing.add(promise)
+    promise.then(() => this.outgoing.delete(promise))
+  }
+
+  /** Whether messages can still go out: the transport is open, or closing after the last ones */
+  private get canSend() {
+    return this.transportOpen || this.draining
+  }
+
+  /**
+   * Closes the transport, after sending the messages that are still being encoded or signed.
+   */
+  private closeTransport() {
+    this.transportOpen = false
+    if (this.outgoing.size === 0) {
+      this.transport.close()
+      return
+    }
+
+    this.draining = true
+    // Sending one message may start encoding or signing the next, so wait until none are left
+    const drain = (): Promise<void> =>
+      this.outgoing.size === 0 ? Promise.resolve() : Promise.all(Array.from(this.outgoing)).then(drain)
+    drain().then(() => {
+      this.draining = false
+      // connect() may have reopened it in the meantime
+      if (!this.transportOpen) this.transport.close()
     })
   }
 
+  /**
+   * Decodes an incoming payload, decrypting and decompressing it first when the sender flagged it.
+   * With encryption enabled, unencrypted payloads are rejected.
+   */
+  private decodePayload(
+    encoded: string,
+    payload: PayloadEncoding & { user: { id: string } },
+    apply: (data: Uint8Array) => void,
+    errorMessage: string
+  ) {
+    const fail = (err: unknown) => {
+      this.emit('error', err instanceof Error ? err : new Error(errorMessage))
+    }
+
+    const { compression, encrypted } = payload
+    const encryption = this.encryption
+    const peerId = payload.user.id
+
+    if (encryption && !encrypted) {
+      fail(new Error(`Rejected unencrypted payload from peer ${peerId}`))
+      return
+    }
+    if (encrypted && !encryption) {
+      fail(new Error(`Received encrypted payload from peer ${peerId}, but no encryption key is configured`))
+      return
+    }
+
+    try {
+      const data = decodeUpdate(encoded)
+      if (!compression && !encrypted) {
+        apply(data)
+        return
+      }
+
+      const codec = compression ? getCodec(compression, this.codec) : null
+      const decrypted = encryption
+        ? decryptUpdate(data, encryption).catch(() => {
+            throw new Error(`Failed to decrypt payload from peer ${peerId}: wrong encryption key or corrupted data`)
+          })
+        : Promise.resolve(data)
+
+      decrypted
+        .then((plaintext) => (codec ? codec.decompress(plaintext) : plaintext))
+        .then((result) => {
+          // The transport may have closed while decoding
+          if (this.transportOpen) apply(result)
+        })
+        .catch(fail)
+    } catch (err) {
+      fail(err)
+    }
+  }
+
+  private sendUpdate(encoded: string, event: string, encoding: PayloadEncoding, to?: string) {
+    if (!this.canSend) return
+
+    // Only room-wide messages are sequenced; directed ones are not seen by everyone
+    const seq = to === undefined ? ++this.sequence : undefined
+
+    const maxPayloadBytes = this.options?.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES
+
+    if (encoded.length <= maxPayloadBytes) {
+      const payload: RealtimeYPayload = {
+        update: encoded,
+        user: { id: this.userId },
+        timestamp: Date.now(),
+        to,
+        seq,
+        session: this.sessionId,
+        compression: encoding.compression,
+        encrypted: encoding.encrypted,
+      }
+
+      this.send(event, payload)
+      return
+    }
+
+    // Split oversized updates so each message stays under the Realtime size limit
+    const id = crypto.randomUUID()
+    const count = Math.ceil(encoded.length / maxPayloadBytes)
+
+    for (let index = 0; index < count; index++) {
+      const payload: RealtimeYPayload = {
+        update: encoded.slice(index * maxPayloadBytes, (index + 1) * maxPayloadBytes),
+        user: { id: this.userId },
+        timestamp: Date.now(),
+        to,
+        seq,
+        session: this.sessionId,
+        compression: encoding.compression,
+        encrypted: encoding.encrypted,
+        chunk: { id, index, count },
+      }
+
+      this.send(event, payload)
+    }
+  }
+
+  /**
+   * Collects one chunk of a split update.
+   * @returns The reassembled encoded update once every chunk arrived, otherwise null
+   */
+  private collectChunk(payload: RealtimeYPayload): string | null {
+    const { id, index, count } = payload.chunk!
+    const key = `${payload.user.id}:${id}`
+    const maxUpdateBytes = this.options?.maxUpdateBytes ?? DEFAULT_MAX_UPDATE_BYTES
+    let set = this.chunkSets.get(key)
+
+    if (!set) {
+      // Bound the count before allocating for it. Peers split updates into chunks of maxPayloadBytes
+      const maxCount = Math.ceil(maxUpdateBytes / (this.options?.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES))
+      if (!Number.isInteger(count) || count < 1 || count > maxCount) {
+        this.emit('error', new Error('Failed to reassemble chunked update: invalid chunk count'))
+        return null
+      }
+
+      const timeoutMs = this.options?.chunkTimeoutMs ?? DEFAULT_CHUNK_TIMEOUT
+      set = {
+        parts: new Array<string>(count),
+        received: 0,
+        bytes: 0,
+        timeout: setTimeout(() => {
+          this.chunkSets.delete(key)
+          this.emit('error', new Error('Failed to reassemble chunked update: timed out waiting for chunks'))
+        }, timeoutMs),
+      }
+      this.chunkSets.set(key, set)
+    }
+
+    if (count !== set.parts.length || !Number.isInteger(index) || index < 0 || index >= count) {
+      clearTimeout(set.timeout)
+      this.chunkSets.delete(key)
+      this.emit('error', new Error('Failed to reassemble chunked update: inconsistent chunk metadata'))
+      return null
+    }
+
+    if (set.parts[index] === undefined) {
+      set.parts[index] = payload.update
+      set.received++
+      set.bytes += payload.update.length
+    }
+
+    if (set.bytes > maxUpdateBytes) {
+      clearTimeout(set.timeout)
+      this.chunkSets.delete(key)
+      this.emit('error', new Error('Failed to reassemble chunked update: update exceeds maxUpdateBytes'))
+      return null
+    }
+
+    if (set.received < count) return null
+
+    clearTimeout(set.timeout)
+    this.chunkSets.delete(key)
+    return set.parts.join('')
+  }
+
   private queueBroadcast(update: Uint8Array) {
     const throttle = this.options?.broadcastThrottleMs ?? 0
 
     if (throttle <= 0) {
-      this.broadcastUpdate(update)
+      this.sendLocalUpdate(update)
+      return
+    }
+
+    // Leading edge: send right away when no batch is open, then batch what follows
+    if (this.options?.broadcastLeadingEdge && !this.broadcastTimeout) {
+      this.sendLocalUpdate(update)
+      this.broadcastTimeout = setTimeout(() => this.flush(), throttle)
       return
     }
 
     this.pendingUpdates.push(update)
+    this.pendingBytes += update.length
+
+    const maxUpdates = this.options?.maxBatchUpdates ?? Infinity
+    const maxBytes = this.options?.maxBatchBytes ?? Infinity
+    if (this.pendingUpdates.length >= maxUpdates || this.pendingBytes >= maxBytes) {
+      this.flush()
+      return
+    }
 
     if (this.broadcastTimeout) return
 
-    this.broadcastTimeout = setTimeout(() => {
+    this.broadcastTimeout = setTimeout(() => this.flush(), throttle)
+  }
+
+  /**
+   * Immediately sends local updates held back by `broadcastThrottleMs`.
+   * Called automatically on destroy so the last edits are not lost.
+   */
+  flush() {
+    if (this.broadcastTimeout) {
+      clearTimeout(this.broadcastTimeout)
       this.broadcastTimeout = null
-      if (this.pendingUpdates.length === 0) return
+    }
+    if (this.pendingUpdates.length === 0) return
+
+    const mergedUpdate =
+      this.pendingUpdates.length === 1
+        ? this.pendingUpdates[0]
+        : Y.mergeUpdates(this.pendingUpdates)
+    this.pendingUpdates = []
+    this.pendingBytes = 0
+    this.sendLocalUpdate(mergedUpdate)
+  }
 
-      const mergedUpdate =
-        this.pendingUpdates.length === 1
-          ? this.pendingUpdates[0]
-          : Y.mergeUpdates(this.pendingUpdates)
-      this.pendingUpdates = []
-      this.broadcastUpdate(mergedUpdate)
-    }, throttle)
+  /**
+   * Broadcasts a local update, or buffers it until we are connected again.
+   */
+  private sendLocalUpdate(update: Uint8Array) {
+    if (this.status !== 'connected') {
+      this.offlineUpdates.push(update)
+      if (this.offlineUpdates.length === 1) {
+        this.emit('pending-change', true)
+      }
+      return
+    }
+
+    this.broadcastUpdate(update)
+  }
+
+  private flushOfflineUpdates() {
+    if (this.offlineUpdates.length === 0) return
+
+    const mergedUpdate =
+      this.offlineUpdates.length === 1 ? this.offlineUpdates[0] : Y.mergeUpdates(this.offlineUpdates)
+    this.offlineUpdates = []
+    this.broadcastUpdate(mergedUpdate)
+    this.emit('pending-change', false)
   }
 
   private handleDocUpdate(update: Uint8Array, origin: unknown) {
-    if (origin === 'remote') return
+    if (origin === 'remote' || this.options?.readOnly) return
 
+    this.postCrossTab({ type: 'update', update })
     this.queueBroadcast(update)
   }
 
-  private handleRemoteUpdate(payload: RealtimeYPayload) {
-    if (payload.user.id === this.userId) return
+  private postCrossTab(message: CrossTabMessage) {
+    this.crossTabChannel?.postMessage(message)
+  }
 
+  private handleCrossTabMessage(message: CrossTabMessage) {
     try {
-      const update = decodeUpdate(payload.update)
-      Y.applyUpdate(this.doc, update, 'remote')
-      this.emit('message', update)
+      if (message.type === 'update') {
+        this.applyRemoteUpdate(message.update)
+      } else if (message.type === 'awareness') {
+        if (!this.awareness) return
+        applyAwarenessUpdate(this.awareness, message.update, 'remote')
+        this.emit('awareness', message.update)
+      } else if (message.type === 'state-vector') {
+        if (!this.options?.readOnly) {
+          const diff = Y.encodeStateAsUpdate(this.doc, message.stateVector)
+          if (diff.length > 2) this.postCrossTab({ type: 'update', update: diff })
+        }
+
+        // Introduce ourselves to the new tab
+        if (this.awareness) {
+          const update = encodeAwarenessUpdate(this.awareness, [this.awareness.clientID])
+          this.postCrossTab({ type: 'awareness', update })
+        }
+      }
     } catch (err) {
-      this.emit('error', err instanceof Error ? err : new Error('Failed to apply remote update'))
+      this.emit('error', err instanceof Error ? err : new Error('Failed to handle cross-tab message'))
     }
   }
 
-  private broadcastAwarenessUpdate(update: Uint8Array) {
-    if (!this.channel) return
+  /**
+   * Applies an update from another peer or tab. With cross-tab sync, the same update
+   * usually arrives twice (from Realtime and from the other tab), so updates the
+   * document already contains are skipped.
+   * @param sender - The peer that sent the update, checked with `validateUpdate`. Omitted for other tabs
+   * @param onDone - Called once the update was applied or rejected
+   */
+  private applyRemoteUpdate(update: Uint8Array, sender?: PayloadUser, onDone?: () => void) {
+    if (this.crossTabChannel && this.containsUpdate(update)) {
+      onDone?.()
+      return
+    }
+
+    const apply = (valid: boolean) => {
+      if (valid) {
+        Y.applyUpdate(this.doc, update, 'remote')
+        this.emit('message', update)
+      } else {
+        this.emit('rejected', update, sender!)
+      }
+      onDone?.()
+    }
+
+    const validate = this.options?.validateUpdate
+    if (!validate || !sender) {
+      apply(true)
+      return
+    }
+
+    const fail = (err: unknown) => {
+      this.emit('error', err instanceof Error ? err : new Error('Failed to validate update'))
+      apply(false)
+    }
+
+    try {
+      const result = validate(update, sender)
+      if (typeof result === 'boolean') {
+        apply(result)
+        return
+      }
+
+      result.then((valid) => {
+        // The transport may have closed while validating
+        if (this.transportOpen) apply(valid)
+      }, fail)
+    } catch (err) {
+      fail(err)
+    }
+  }
 
-    const payload: RealtimeYPayload = {
-      update: encodeUpdate(update),
-      user: { id: this.userId },
-      timestamp: Date.now(),
+  private containsUpdate(update: Uint8Array) {
+    // Cheap check first: new insertions are the common case
+    const { to } = Y.parseUpdateMeta(update)
+    for (const [client, clock] of to) {
+      if (Y.getState(this.doc.store, client) < clock) return false
     }
 
-    this.channel.send({
-      type: 'broadcast',
-      event: AWARENESS_EVENT,
+    return Y.snapshotContainsUpdate(Y.snapshot(this.doc), update)
+  }
+
+  /**
+   * Our own messages and messages addressed to another peer are ignored.
+   */
+  private shouldIgnore(payload: { user: { id: string }; to?: string }) {
+    return payload.user.id === this.userId || (payload.to !== undefined && payload.to !== this.userId)
+  }
+
+  private handleRemoteUpdate(payload: RealtimeYPayload) {
+    // Replies to a peer we are about to answer ourselves are inspected, not applied
+    const overheardReply = payload.to !== undefined && this.pendingReplies.has(payload.to)
+    if (this.shouldIgnore(payload) && !overheardReply) return
+
+    if (payload.to === undefined) {
+      this.trackSequence(payload)
+    }
+
+    let encoded = payload.update
+    if (payload.chunk) {
+      const assembled = this.collectChunk(payload)
+      if (assembled === null) return
+      encoded = assembled
+    }
+
+    this.decodePayload(
+      encoded,
       payload,
+      (update) => {
+        if (overheardReply) {
+          this.observeReply(payload.to!, update)
+          return
+        }
+        // A diff addressed to us is a reply to our state vector. Only count as synced once
+        // it is in the doc, which may be after an async validateUpdate
+        const onDone = payload.to === this.userId ? () => this.markPeerSynced() : undefined
+        // Without authIdentity, nothing vouches for the auth user id a sender claims
+        const sender = this.options?.authIdentity ? payload.user : { id: payload.user.id }
+        this.applyRemoteUpdate(update, sender, onDone)
+      },
+      'Failed to apply remote update'
+    )
+  }
+
+  /**
+   * Checks a room-wide update's sequence number against the last one seen from its sender.
+   * On a gap, asks the sender for what we are missing.
+   */
+  private trackSequence(payload: RealtimeYPayload) {
+    if (payload.seq === undefined) return
+
+    const peerId = payload.user.id
+    const last = this.receivedSequences.get(peerId)
+    const sameSession = last !== undefined && last.session === payload.session
+
+    // Chunks of one update share a sequence number
+    if (sameSession && payload.seq <= last.seq) return
+
+    this.receivedSequences.set(peerId, { session: payload.session, seq: payload.seq })
+
+    if (sameSession && payload.seq > last.seq + 1) {
+      this.emit('gap-detected', { peerId, expected: last.seq + 1, received: payload.seq })
+      this.sendStateVector(peerId, true)
+    }
+  }
+
+  private broadcastAwarenessUpdate(update: Uint8Array) {
+    if (!this.transportOpen) return
+
+    this.encodePayload(update, (encoded, encoding) => {
+      if (!this.canSend) return
+
+      const payload: RealtimeYPayload = {
+        update: encoded,
+        user: { id: this.userId },
+        timestamp: Date.now(),
+        compression: encoding.compression,
+        encrypted: encoding.encrypted,
+      }
+
+      this.send(AWARENESS_EVENT, payload)
     })
   }
 
@@ -207,6 +941,7 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
     if (origin === 'remote') return
 
     const update = encodeAwarenessUpdate(this.awareness, [...added, ...updated, ...removed])
+    this.postCrossTab({ type: 'awareness', update })
     this.broadcastAwarenessUpdate(update)
   }
 
@@ -214,129 +949,510 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
     if (!this.awareness) return
     if (payload.user.id === this.userId) return
 
-    try {
-      const update = decodeUpdate(payload.update)
-      applyAwarenessUpdate(this.awareness, update, 'remote')
-      this.emit('awareness', update)
-    } catch (err) {
-      this.emit('error', err instanceof Error ? err : new Error('Failed to apply awareness update'))
-    }
+    this.decodePayload(
+      payload.update,
+      payload,
+      (update) => {
+        if (!this.awareness) return
+        applyAwarenessUpdate(this.awareness, update, 'remote')
+        this.emit('awareness', update)
+      },
+      'Failed to apply awareness update'
+    )
   }
 
   /**
    * Sends our state vector to request missing updates from peers.
+   * @param to - Address a single peer instead of the whole room
+   * @param resync - Ask for a diff only, without a new handshake (periodic resyncs and gap recovery)
    */
-  private sendStateVector() {
-    if (!this.channel) return
+  private sendStateVector(to?: string, resync = false) {
+    if (!this.transportOpen) return
+
+    this.encodePayload(
+      Y.encodeStateVector(this.doc),
+      (encoded, encoding) => {
+        if (!this.canSend) return
+
+        const payload: StateVectorPayload = {
+          stateVector: encoded,
+          user: { id: this.userId },
+          timestamp: Date.now(),
+          to,
+          session: this.sessionId,
+          resync: resync || undefined,
+          encrypted: encoding.encrypted,
+        }
 
-    const stateVector = Y.encodeStateVector(this.doc)
-    const payload: StateVectorPayload = {
-      stateVector: encodeUpdate(stateVector),
-      user: { id: this.userId },
-      timestamp: Date.now(),
-    }
+        this.send(STATE_VECTOR_EVENT, payload)
+      },
+      false
+    )
+  }
 
-    this.channel.send({
-      type: 'broadcast',
-      event: STATE_VECTOR_EVENT,
+  /**
+   * Handles incoming state vector from a peer.
+   * Computes the diff (what the peer is missing) and sends it to that peer only.
+   */
+  private handleStateVector(payload: StateVectorPayload) {
+    if (this.shouldIgnore(payload)) return
+
+    this.decodePayload(
+      payload.stateVector,
       payload,
+      (stateVector) => this.applyStateVector(payload, Y.decodeStateVector(stateVector)),
+      'Failed to handle state vector'
+    )
+  }
+
+  private applyStateVector(payload: StateVectorPayload, remoteStateVector: Map<number, number>) {
+    // A peer replying with nothing we lack means there is no diff to wait for
+    if (payload.to === this.userId && !this.peerSynced) {
+      const localStateVector = Y.decodeStateVector(Y.encodeStateVector(this.doc))
+      const upToDate = Array.from(remoteStateVector).every(
+        ([client, clock]) => (localStateVector.get(client) ?? 0) >= clock
+      )
+      if (upToDate) this.markPeerSynced()
+    }
+
+    // Periodic resyncs bypass the guard below. They are answered with a diff only,
+    // never with our own state vector, so they cannot ping-pong.
+    const resync = payload.resync === true
+
+    if (!resync) {
+      // Prevent infinite ping-pong - only sync once per peer session.
+      // A new session means the peer reconnected and may have missed updates.
+      const syncedSession = this.syncedPeers.get(payload.user.id)
+      if (this.syncedPeers.has(payload.user.id) && syncedSession === payload.session) return
+      this.syncedPeers.set(payload.user.id, payload.session)
+    }
+
+    // Read-only viewers only ever receive
+    if (!this.options?.readOnly) {
+      this.scheduleReply(payload.user.id, remoteStateVector)
+    }
+
+    // Send our state vector so they can send us what we're missing
+    if (!resync) {
+      this.sendStateVector(payload.user.id)
+    }
+  }
+
+  /**
+   * Answers a peer's state vector after a random delay, so that in a busy room
+   * usually only one peer ends up sending the diff.
+   */
+  private scheduleReply(peerId: string, stateVector: Map<number, number>) {
+    const maxDelay = this.options?.syncReplyDelayMs ?? DEFAULT_SYNC_REPLY_DELAY
+
+    const existing = this.pendingReplies.get(peerId)
+    if (existing) {
+      clearTimeout(existing.timeout)
+      this.pendingReplies.delete(peerId)
+    }
+
+    if (maxDelay <= 0) {
+      this.sendReply(peerId, stateVector)
+      return
+    }
+
+    const reply: PendingReply = {
+      stateVector,
+      timeout: setTimeout(() => {
+        this.pendingReplies.delete(peerId)
+        this.sendReply(peerId, reply.stateVector)
+      }, Math.random() * maxDelay),
+    }
+    this.pendingReplies.set(peerId, reply)
+  }
+
+  private sendReply(peerId: string, stateVector: Map<number, number>) {
+    // Compute what the remote peer is missing based on their state vector
+    const diff = Y.encodeStateAsUpdate(this.doc, Y.encodeStateVector(stateVector))
+
+    // Only send if there's actual data (empty update is ~2 bytes)
+    if (diff.length > 2) {
+      this.broadcastUpdate(diff, UPDATE_EVENT, peerId)
+    }
+  }
+
+  /**
+   * Accounts for another peer's reply to a requester we are about to answer,
+   * and cancels our reply once the requester will have everything we have.
+   */
+  private observeReply(peerId: string, update: Uint8Array) {
+    const pending = this.pendingReplies.get(peerId)
+    if (!pending) return
+
+    const { from, to } = Y.parseUpdateMeta(update)
+    to.forEach((clock, client) => {
+      const known = pending.stateVector.get(client) ?? 0
+      if ((from.get(client) ?? 0) <= known && clock > known) {
+        pending.stateVector.set(client, clock)
+      }
     })
+
+    const localStateVector = Y.decodeStateVector(Y.encodeStateVector(this.doc))
+    const covered = Array.from(localStateVector).every(
+      ([client, clock]) => (pending.stateVector.get(client) ?? 0) >= clock
+    )
+
+    if (covered) {
+      clearTimeout(pending.timeout)
+      this.pendingReplies.delete(peerId)
+    }
+  }
+
+  private handlePeerJoin(peerId: string) {
+    if (peerId === this.userId || this.peers.has(peerId)) return
+
+    this.peers.add(peerId)
+    this.emit('peer-join', peerId)
+  }
+
+  private handlePeerLeave(peerId: string) {
+    if (!this.peers.delete(peerId)) return
+
+    // Forget the peer so it gets a fresh sync if it comes back
+    this.syncedPeers.delete(peerId)
+    this.receivedSequences.delete(peerId)
+    this.peerAuthIds.delete(peerId)
+
+    const reply = this.pendingReplies.get(peerId)
+    if (reply) {
+      clearTimeout(reply.timeout)
+      this.pendingReplies.delete(peerId)
+    }
+
+    this.chunkSets.forEach((set, key) => {
+      if (key.startsWith(`${peerId}:`)) {
+        clearTimeout(set.timeout)
+        this.chunkSets.delete(key)
+      }
+    })
+
+    this.emit('peer-leave', peerId)
   }
 
   /**
-   * Handles incoming state vector from a peer.
-   * Computes the diff (what the peer is missing) and sends it.
+   * Reconciles tracked peers with the transport's presence report,
+   * catching peers that left while we were disconnected.
    */
-  private handleStateVector(payload: StateVectorPayload) {
-    if (payload.user.id === this.userId) return
+  private handlePresence(peerIds: string[]) {
+    if (!this.transportOpen) return
 
-    // Prevent infinite ping-pong - only sync once per peer
-    if (this.syncedPeers.has(payload.user.id)) return
-    this.syncedPeers.add(payload.user.id)
+    const present = new Set(peerIds)
+    this.peers.forEach((peerId) => {
+      if (!present.has(peerId)) this.handlePeerLeave(peerId)
+    })
+    peerIds.forEach((peerId) => this.handlePeerJoin(peerId))
+  }
 
-    try {
-      const remoteStateVector = decodeUpdate(payload.stateVector)
+  /**
+   * Sends a message, first adding our auth user id and signature when configured.
+   */
+  private send(event: string, payload: SignedPayload) {
+    if (!this.signingKey && !this.options?.authIdentity) {
+      this.transport.send(event, payload)
+      return
+    }
+
+    this.trackOutgoing(
+      this.authenticate(event, payload)
+        .then(() => {
+          if (this.canSend) this.transport.send(event, payload)
+        })
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error('Failed to sign message'))
+        })
+    )
+  }
+
+  private async authenticate(event: string, payload: SignedPayload) {
+    if (this.options?.authIdentity) {
+      const identity = await this.getIdentity()
+      payload.user.authId = identity.authId
+      payload.keyId = identity.keyId
+      payload.userSignature = await signIdentity(`${event}\n${canonicalJson(payload)}`, identity.privateKey)
+    }
+    if (this.signingKey) {
+      payload.signature = await signMessage(`${event}\n${canonicalJson(payload)}`, this.signingKey)
+    }
+  }
+
+  private getIdentity() {
+    this.identity ??= this.registerIdentity().catch((err) => {
+      // Peers drop our messages without a registered key, so retry on the next message
+      this.identity = null
+      throw err
+    })
+    return this.identity
+  }
+
+  /**
+   * Generates a key pair for this provider and registers its public key as the session's user.
+   */
+  private async registerIdentity(): Promise<Identity> {
+    const { data, error } = await this.supabase.auth.getSession()
+    const authId = data.session?.user.id
+    if (error || !authId) {
+      throw new Error(`No Supabase auth session to identify with${error ? `: ${error.message}` : ''}`)
+    }
+
+    const { privateKey, publicKey } = await generateIdentityKeyPair()
+    const keyId = crypto.randomUUID()
+    const { error: insertError } = await this.identityTable().insert({
+      id: keyId,
+      user_id: authId,
+      public_key: await exportPublicKey(publicKey),
+    })
+    if (insertError) {
+      throw new Error(`Failed to register signing key: ${insertError.message}`)
+    }
+
+    return { authId, keyId, privateKey }
+  }
+
+  private identityTable() {
+    const options = typeof this.options?.authIdentity === 'object' ? this.options.authIdentity : undefined
+    return this.supabase
+      .schema(options?.schema ?? DEFAULT_IDENTITY_SCHEMA)
+      .from(options?.table ?? DEFAULT_IDENTITY_TABLE)
+  }
+
+  private getPeerKey(keyId: string) {
+    let peerKey = this.peerKeys.get(keyId)
+    if (!peerKey) {
+      peerKey = this.fetchPeerKey(keyId)
+      this.peerKeys.set(keyId, peerKey)
+      // Only keep keys that were found, so failed lookups are retried and unknown ids do not pile up
+      peerKey.then(
+        (found) => {
+          if (!found) this.peerKeys.delete(keyId)
+        },
+        () => this.peerKeys.delete(keyId)
+      )
+    }
+    return peerKey
+  }
+
+  private async fetchPeerKey(keyId: string): Promise<PeerKey | null> {
+    const { data, error } = await this.identityTable().select('user_id, public_key').eq('id', keyId).single()
+
+    // PGRST116 = no rows: nobody registered this key
+    if (error?.code === 'PGRST116') return null
+    if (error) {
+      throw new Error(`Failed to fetch signing key: ${error.message}`)
+    }
+
+    const row = data as { user_id: string; public_key: string }
+    return { authId: row.user_id, publicKey: await importPublicKey(row.public_key) }
+  }
+
+  /**
+   * Checks a message's signatures and auth user id, when configured.
+   * Unverifiable messages are reported through `error`.
+   */
+  private async verify(event: string, payload: SignedPayload) {
+    const reject = (reason: string) => {
+      this.emit('error', new Error(`Dropped message from peer ${payload.user.id}: ${reason}`))
+      return false
+    }
+
+    const { signature, ...unsigned } = payload
+    const { userSignature, ...unsignedByUser } = unsigned
+    const { authId } = payload.user
+    const authIdentity = Boolean(this.options?.authIdentity)
+
+    if (authIdentity && !authId) return reject('no auth user id')
+    if (this.signingKey && !signature) return reject('missing signature')
+    if (authIdentity && (!userSignature || !payload.keyId)) return reject('missing user signature')
+
+    const maxAge = this.options?.maxMessageAgeMs ?? DEFAULT_MAX_MESSAGE_AGE
+    const now = Date.now()
+    if (!(Math.abs(now - payload.timestamp) <= maxAge)) return reject('timestamp outside the accepted window')
+    const messageId = (signature ?? userSignature)!
+    if (this.seenSignatures.has(messageId)) return reject('replayed message')
+
+    if (this.signingKey) {
+      const valid = await verifyMessage(`${event}\n${canonicalJson(unsigned)}`, signature!, this.signingKey).catch(
+        () => false
+      )
+      if (!valid) return reject('invalid signature')
+    }
+
+    if (authIdentity) {
+      // Users can only register keys as themselves, so a key vouches for the user who registered it
+      const peerKey = await this.getPeerKey(payload.keyId!)
+      if (!peerKey || peerKey.authId !== authId) return reject('signing key not registered by this auth user')
+
+      const valid = await verifyIdentity(
+        `${event}\n${canonicalJson(unsignedByUser)}`,
+        userSignature!,
+        peerKey.publicKey
+      ).catch(() => false)
+      if (!valid) return reject('invalid user signature')
+
+      // Peer ids are public, so keep another user from taking over one we already know
+      const knownAuthId = this.peerAuthIds.get(payload.user.id)
+      if (knownAuthId !== undefined && knownAuthId !== authId) return reject('peer id belongs to another auth user')
+    }
+
+    // Replays older than the window are rejected by their timestamp, so only remember recent signatures
+    this.seenSignatures.forEach((timestamp, seen) => {
+      if (Math.abs(now - timestamp) > maxAge) this.seenSignatures.delete(seen)
+    })
+    this.seenSignatures.set(messageId, payload.timestamp)
+    return true
+  }
+
+  private handleMessage(event: string, payload: unknown) {
+    if (!this.transportOpen) return
+
+    if (this.signingKey || this.options?.authIdentity) {
+      if (!isSignedPayload(payload)) {
+        this.emit('error', new Error(`Dropped malformed ${event} message`))
+        return
+      }
+
+      this.verify(event, payload)
+        .then((verified) => {
+          if (!verified || !this.transportOpen) return
+          if (this.options?.authIdentity && payload.user.authId) {
+            this.peerAuthIds.set(payload.user.id, payload.user.authId)
+          }
+          this.dispatchMessage(event, payload)
+        })
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error('Failed to verify message'))
+        })
+      return
+    }
 
-      // Compute what the remote peer is missing based on their state vector
-      const diff = Y.encodeStateAsUpdate(this.doc, remoteStateVector)
+    this.dispatchMessage(event, payload)
+  }
 
-      // Only send if there's actual data (empty update is ~2 bytes)
-      if (diff.length > 2) {
-        this.broadcastUpdate(diff)
+  private dispatchMessage(event: string, payload: unknown) {
+    if (event === STATE_VECTOR_EVENT) {
+      this.handleStateVector(payload as StateVectorPayload)
+    } else if (event === UPDATE_EVENT) {
+      this.handleRemoteUpdate(payload as RealtimeYPayload)
+    } else if (event === AWARENESS_EVENT) {
+      this.handleRemoteAwareness(payload as RealtimeYPayload)
+    }
+  }
+
+  private handleTransportStatus(status: TransportStatus, err?: Error) {
+    if (!this.transportOpen) return
+
+    if (status === 'connected') {
+      this.setStatus('connected')
+      this.emit('connect', this)
+      this.reconnectAttempts = 0 // Reset reconnect attempts on successful connection
+
+      // Broadcast initial awareness state to existing peers
+      if (this.awareness) {
+        const update = encodeAwarenessUpdate(
+          this.awareness,
+          Array.from(this.awareness.getStates().keys())
+        )
+        this.broadcastAwarenessUpdate(update)
       }
 
-      // Send our state vector so they can send us what we're missing
+      // Send edits made while we were offline
+      this.flushOfflineUpdates()
+
+      // Send our state vector to request sync from existing peers
       this.sendStateVector()
-    } catch (err) {
-      this.emit('error', err instanceof Error ? err : new Error('Failed to handle state vector'))
+
+      // If nobody answers, assume we are alone in the room
+      this.syncTimeout = setTimeout(() => {
+        this.syncTimeout = null
+        this.markPeerSynced()
+      }, this.options?.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT)
+
+      this.startResync()
+      return
     }
+
+    this.resetSync()
+
+    if (status === 'unauthorized') {
+      // Reconnecting would fail the same way, so stop until connect() is called again
+      this.transportOpen = false
+      this.transport.close()
+      this.setStatus('unauthorized')
+      this.emit('error', err ?? new Error('Not authorized to join channel'))
+      this.emit('disconnect', this)
+      return
+    }
+
+    if (status === 'error') {
+      this.emit('error', err ?? new Error('Channel error'))
+    } else if (status === 'timed-out') {
+      this.emit('error', new Error('Connection timed out'))
+    }
+    // Sets the status according to whether and when we reconnect
+    this.scheduleReconnect(status === 'timed-out' ? new Error('Connection timed out') : err)
+    this.emit('disconnect', this)
   }
 
   /**
-   * Connects to the Supabase Realtime channel and starts syncing.
-   * Called automatically in the constructor. Can be called again to reconnect.
+   * Connects through the transport (by default, the Supabase Realtime channel) and starts syncing.
+   * Called automatically in the constructor unless `connect: false`. Can be called again to reconnect,
+   * for example after `disconnect()`.
    */
   connect() {
     this.shouldReconnect = true
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+    this.setStatus('connecting')
+    this.subscribeToAuth()
     this.doc.off('update', this.handleDocUpdate)
     this.doc.on('update', this.handleDocUpdate)
     this.syncedPeers.clear()
+    this.receivedSequences.clear()
+    this.sessionId = crypto.randomUUID()
+    this.sequence = 0
+    this.resetSync()
 
-    this.channel = this.supabase.channel(this.channelName)
+    this.transportOpen = true
+    this.transport.connect(this.userId)
+  }
 
-    this.channel
-      .on('broadcast', { event: STATE_VECTOR_EVENT }, (data: { payload: StateVectorPayload }) => {
-        this.handleStateVector(data.payload)
-      })
-      .on('broadcast', { event: UPDATE_EVENT }, (data: { payload: RealtimeYPayload }) => {
-        this.handleRemoteUpdate(data.payload)
-      })
-      .on('broadcast', { event: AWARENESS_EVENT }, (data: { payload: RealtimeYPayload }) => {
-        this.handleRemoteAwareness(data.payload)
-      })
-      .subscribe((status, err) => {
-        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
-          this.setStatus('connected')
-          this.emit('connect', this)
-          this.reconnectAttempts = 0 // Reset reconnect attempts on successful connection
-
-          // Broadcast initial awareness state to existing peers
-          if (this.awareness) {
-            const update = encodeAwarenessUpdate(
-              this.awareness,
-              Array.from(this.awareness.getStates().keys())
-            )
-            this.broadcastAwarenessUpdate(update)
-          }
+  private subscribeToAuth() {
+    // Clients without auth are fine with a custom transport
+    if (this.authSubscription || !this.supabase.auth) return
 
-          // Send our state vector to request sync from existing peers
-          this.sendStateVector()
-        } else if (status === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR) {
-          this.setStatus('disconnected')
-          this.emit('error', err ?? new Error('Channel error'))
-          this.emit('disconnect', this)
-          this.scheduleReconnect()
-        } else if (status === REALTIME_SUBSCRIBE_STATES.TIMED_OUT) {
-          this.setStatus('disconnected')
-          this.emit('error', new Error('Connection timed out'))
-          this.emit('disconnect', this)
-          this.scheduleReconnect()
-        } else if (status === REALTIME_SUBSCRIBE_STATES.CLOSED) {
-          this.setStatus('disconnected')
-          this.emit('disconnect', this)
-          this.scheduleReconnect()
-        }
+    const { data } = this.supabase.auth.onAuthStateChange((event, session) => this.handleAuthStateChange(event, session))
+    this.authSubscription = data.subscription
+  }
+
+  private handleAuthStateChange(event: AuthChangeEvent, session: Session | null) {
+    if (event === 'TOKEN_REFRESHED') {
+      // Rejoins after this use the new token instead of retrying with the expired one
+      this.supabase.realtime.setAuth(session?.access_token ?? null).catch((err: unknown) => {
+        this.emit('error', err instanceof Error ? err : new Error('Failed to update Realtime auth token'))
       })
+      this.emit('auth', 'token-refreshed')
+    } else if (event === 'SIGNED_OUT') {
+      this.identity = null
+      this.emit('auth', 'signed-out')
+      this.destroy()
+    }
   }
 
   /**
-   * Schedule a reconnection attempt with exponential backoff.
+   * Schedule a reconnection attempt, with the delay given by the reconnect strategy.
    */
-  private scheduleReconnect() {
+  private scheduleReconnect(lastError?: Error) {
     const autoReconnect = this.options?.autoReconnect ?? true
     const maxAttempts = this.options?.maxReconnectAttempts ?? Infinity
 
-    if (!autoReconnect || !this.shouldReconnect || this.reconnectAttempts >= maxAttempts) {
+    if (!autoReconnect || !this.shouldReconnect) {
+      this.setStatus('disconnected')
       return
     }
 
@@ -345,31 +1461,101 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
       this.reconnectTimeout = null
     }
 
-    const baseDelay = this.options?.reconnectDelay ?? 1000
-    const maxDelay = this.options?.maxReconnectDelay ?? 30000
+    // Attempts would only fail without a network, so wait for the online event instead
+    if (isBrowserOffline()) {
+      this.setStatus('offline')
+      return
+    }
 
-    // Exponential backoff: 1s, 2s, 4s, 8s
-    const delay = Math.min(baseDelay * Math.pow(2, this.reconnectAttempts), maxDelay)
+    const delay =
+      this.reconnectAttempts < maxAttempts ? this.getReconnectDelay(this.reconnectAttempts + 1, lastError) : null
+    if (delay === null) {
+      this.setStatus('failed')
+      this.emit('reconnect-exhausted', this.reconnectAttempts)
+      return
+    }
 
     this.reconnectAttempts++
+    this.setStatus('reconnecting')
+    this.emit('reconnect-scheduled', { attempt: this.reconnectAttempts, delay })
 
     this.reconnectTimeout = setTimeout(() => {
-      if (this.shouldReconnect) {
+      this.reconnectTimeout = null
+      if (!this.shouldReconnect) return
+
+      if (isBrowserOffline()) {
+        this.setStatus('offline')
+      } else {
         this.connect()
       }
     }, delay)
   }
 
+  private getReconnectDelay(attempt: number, lastError: Error | undefined) {
+    if (this.options?.reconnectStrategy) {
+      return this.options.reconnectStrategy(attempt, lastError)
+    }
+
+    const baseDelay = this.options?.reconnectDelay ?? 1000
+    const maxDelay = this.options?.maxReconnectDelay ?? 30000
+
+    // Exponential backoff: 1s, 2s, 4s, 8s, each shortened by up to half at random
+    // so that clients dropped at the same moment don't all rejoin together
+    const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay)
+    return delay / 2 + (Math.random() * delay) / 2
+  }
+
+  private resumeReconnect() {
+    if (!isBrowserOffline()) this.retryNow()
+  }
+
   /**
-   * Disconnects from the channel and cleans up all resources.
+   * Reconnects right away instead of waiting for the scheduled reconnect, or for the
+   * network to come back while `offline`. Does nothing otherwise.
+   */
+  retryNow() {
+    if (!this.reconnectTimeout && this.status !== 'offline') return
+
+    this.connect()
+  }
+
+  /**
+   * Leaves the room until `connect()` is called again. Unlike `destroy()`, awareness, persistence
+   * and the document stay attached, and local edits are buffered and sent on the next connect.
+   */
+  disconnect() {
+    this.shouldReconnect = false
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+
+    this.resetSync()
+    this.peers.forEach((peerId) => this.handlePeerLeave(peerId))
+
+    if (this.transportOpen) {
+      this.closeTransport()
+    }
+
+    const wasDisconnected = this.status === 'disconnected'
+    this.setStatus('disconnected')
+    // Throttled edits join the offline edits now that we are disconnected
+    this.flush()
+    if (!wasDisconnected) this.emit('disconnect', this)
+  }
+
+  /**
+   * Disconnects from the transport and cleans up all resources.
    * Call this when the provider is no longer needed to prevent memory leaks.
    */
   destroy() {
     this.shouldReconnect = false
 
-    if (this.broadcastTimeout) {
-      clearTimeout(this.broadcastTimeout)
-      this.broadcastTimeout = null
+    // Send throttled edits before the transport closes
+    this.flush()
+    if (this.offlineUpdates.length > 0) {
+      this.offlineUpdates = []
+      this.emit('pending-change', false)
     }
 
     if (this.reconnectTimeout) {
@@ -377,11 +1563,36 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
       this.reconnectTimeout = null
     }
 
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout)
+      this.syncTimeout = null
+    }
+    this.stopResync()
+
+    this.chunkSets.forEach((set) => clearTimeout(set.timeout))
+    this.chunkSets.clear()
+    this.pendingReplies.forEach((reply) => clearTimeout(reply.timeout))
+    this.pendingReplies.clear()
+    this.peers.clear()
+    this.peerKeys.clear()
+    this.peerAuthIds.clear()
+    this.seenSignatures.clear()
+
     if (this.boundBeforeUnload && typeof window !== 'undefined') {
       window.removeEventListener('beforeunload', this.boundBeforeUnload)
       this.boundBeforeUnload = null
     }
 
+    if (this.boundOnline && typeof window !== 'undefined') {
+      window.removeEventListener('online', this.boundOnline)
+      this.boundOnline = null
+    }
+
+    if (this.boundVisibilityChange && typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.boundVisibilityChange)
+      this.boundVisibilityChange = null
+    }
+
     this.doc.off('update', this.handleDocUpdate)
 
     if (this.awareness) {
@@ -389,25 +1600,78 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
       this.awareness.off('update', this.handleAwarenessUpdate)
     }
 
+    if (this.crossTabChannel) {
+      this.crossTabChannel.close()
+      this.crossTabChannel = null
+    }
+
     if (this.persistence) {
       this.persistence.destroy()
       this.persistence = null
     }
 
-    if (this.channel) {
-      this.supabase.removeChannel(this.channel)
-      this.channel = null
+    if (this.authSubscription) {
+      this.authSubscription.unsubscribe()
+      this.authSubscription = null
+    }
+
+    if (this.transportOpen) {
+      this.closeTransport()
+    }
+
+    // The transport's own CLOSED status is ignored once it is closed
+    if (this.status !== 'disconnected') {
+      this.setStatus('disconnected')
+      this.emit('disconnect', this)
     }
   }
 
   /**
    * Returns the current connection status.
-   * @returns The current status: 'connecting', 'connected', or 'disconnected'
+   * @returns The current status: 'connecting', 'connected', 'reconnecting', 'offline', 'failed', 'disconnected', or 'unauthorized'
    */
   getStatus() {
     return this.status
   }
 
+  /**
+   * Whether local edits made while disconnected are still waiting to be sent.
+   */
+  get hasPendingUpdates() {
+    return this.offlineUpdates.length > 0
+  }
+
+  /**
+   * Returns the user ids of the other peers currently in the room, as reported by the transport.
+   */
+  getPeers() {
+    return Array.from(this.peers)
+  }
+
+  /**
+   * Returns the Supabase auth user id of a peer, verified from its messages, with `authIdentity`.
+   */
+  getPeerAuthId(peerId: string) {
+    return this.peerAuthIds.get(peerId)
+  }
+
+  /**
+   * Resolves once the provider is synced: a peer has answered our state vector (or
+   * `syncTimeoutMs` passed without an answer) and persistence, if enabled, has loaded.
+   */
+  whenSynced(): Promise<void> {
+    if (this.synced) return Promise.resolve()
+
+    return new Promise((resolve) => {
+      const listener = (synced: boolean) => {
+        if (!synced) return
+        this.off('sync', listener)
+        resolve()
+      }
+      this.on('sync', listener)
+    })
+  }
+
   /**
    * Returns the Awareness instance if awareness was enabled.
    * @returns The Awareness instance or null if awareness is disabled
@@ -425,5 +1689,5 @@ class SupabaseProvider extends EventEmitter<ProviderEventMap> {
   }
 }
 
-export type { SupabaseProviderOptions }
+export type { SupabaseProviderOptions, AuthIdentityOptions, Status, PayloadUser, AuthEvent, ReconnectStrategy }
 export { SupabaseProvider }
@@ -0,0 +1,36 @@
+/**
+ * Connection states reported by a transport. Anything other than `connected`
+ * means the connection is gone. The provider reconnects, except after `unauthorized`.
+ */
+type TransportStatus = 'connected' | 'error' | 'timed-out' | 'closed' | 'unauthorized'
+
+/**
+ * Carries provider messages between the peers of a room.
+ *
+ * The provider registers its handlers once, then calls `connect()` for every
+ * (re)connection and `close()` when it disconnects. Payloads are plain
+ * JSON-serializable objects.
+ */
+type Transport = {
+  /** Joins the room as `peerId`. Reports `connected` through `onStatus` once messages can be sent */
+  connect(peerId: string): void
+  /** Sends a message to every other peer in the room */
+  send(event: string, payload: unknown): void
+  onMessage(handler: (event: string, payload: unknown) => void): void
+  onStatus(handler: (status: TransportStatus, error?: Error) => void): void
+  /** Reports the ids of all peers currently in the room. Optional; without it the provider tracks no peers */
+  onPresence?(handler: (peerIds: string[]) => void): void
+  /** Reports errors that do not affect the connection */
+  onError?(handler: (error: Error) => void): void
+  /** Leaves the room. No further messages or statuses are reported until the next `connect()` */
+  close(): void
+}
+
+type TransportEventMap = {
+  message: (event: string, payload: unknown) => void
+  status: (status: TransportStatus, error?: Error) => void
+  presence: (peerIds: string[]) => void
+  error: (error: Error) => void
+}
+
+export type { Transport, TransportStatus, TransportEventMap }
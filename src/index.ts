@@ -1,4 +1,14 @@
 export { SupabaseProvider } from './SupabaseProvider'
-export type { SupabaseProviderOptions as SupabaseProviderOptions } from './SupabaseProvider'
+export type { SupabaseProviderOptions as SupabaseProviderOptions, AuthIdentityOptions, PayloadUser, AuthEvent, Status, ReconnectStrategy } from './SupabaseProvider'
 export { SupabasePersistence } from './SupabasePersistence'
 export type { SupabasePersistenceOptions } from './SupabasePersistence'
+export { deflateCodec } from './utils'
+export type { CompressionCodec, EncryptionKey, SigningKey } from './utils'
+export { RealtimeTransport } from './RealtimeTransport'
+export type { RealtimeTransportOptions } from './RealtimeTransport'
+export { InMemoryTransport } from './InMemoryTransport'
+export type { Transport, TransportStatus } from './Transport'
+export { SharedWorkerHost } from './SharedWorkerHost'
+export type { SharedWorkerHostOptions } from './SharedWorkerHost'
+export { SharedWorkerProvider } from './SharedWorkerProvider'
+export type { SharedWorkerProviderOptions } from './SharedWorkerProvider'
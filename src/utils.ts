@@ -44,3 +44,217 @@ export const decodeUpdate = (encoded: string): Uint8Array => {
   }
   return bytes
 }
+
+export type CompressionCodec = {
+  /** Identifier sent along with compressed payloads so peers know how to decode them */
+  name: string
+  compress: (data: Uint8Array) => Uint8Array | Promise<Uint8Array>
+  decompress: (data: Uint8Array) => Uint8Array | Promise<Uint8Array>
+}
+
+const transformBytes = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const writer = stream.writable.getWriter()
+  // Await the writes too: on corrupt input they reject along with the read
+  const [, , output] = await Promise.all([
+    writer.write(data as Uint8Array<ArrayBuffer>),
+    writer.close(),
+    new Response(stream.readable).arrayBuffer(),
+  ])
+  return new Uint8Array(output)
+}
+
+/**
+ * Deflate codec backed by the built-in `CompressionStream`.
+ */
+export const deflateCodec: CompressionCodec = {
+  name: 'deflate',
+  compress: (data) => transformBytes(data, new CompressionStream('deflate')),
+  decompress: (data) => transformBytes(data, new DecompressionStream('deflate')),
+}
+
+export const resolveCodec = (option: boolean | CompressionCodec | undefined): CompressionCodec | null => {
+  if (!option) return null
+  return option === true ? deflateCodec : option
+}
+
+/**
+ * Finds the codec a peer used. The built-in deflate codec is always available so
+ * peers that do not compress themselves can still read compressed payloads.
+ */
+export const getCodec = (name: string, configured: CompressionCodec | null): CompressionCodec => {
+  if (configured?.name === name) return configured
+  if (name === deflateCodec.name) return deflateCodec
+  throw new Error(`Unsupported compression: ${name}`)
+}
+
+/**
+ * Compresses an update when that makes it smaller.
+ * @returns The bytes to send and the codec name, or no name if the update was left as is
+ */
+export const compressUpdate = async (update: Uint8Array, codec: CompressionCodec) => {
+  const compressed = await codec.compress(update)
+  return compressed.length < update.length
+    ? { data: compressed, compression: codec.name }
+    : { data: update, compression: undefined }
+}
+
+export type EncryptionKey = CryptoKey | (() => CryptoKey | Promise<CryptoKey>)
+
+/** Marks encrypted payloads in storage */
+const ENCRYPTION_NAME = 'aes-gcm'
+/** Length of the random AES-GCM nonce stored in front of every ciphertext */
+const IV_BYTES = 12
+
+const resolveKey = async (key: EncryptionKey | SigningKey) => (typeof key === 'function' ? key() : key)
+
+/**
+ * Encrypts data with AES-GCM under a fresh random IV.
+ * @returns The IV followed by the ciphertext
+ */
+export const encryptUpdate = async (data: Uint8Array, key: EncryptionKey) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await resolveKey(key),
+    data as Uint8Array<ArrayBuffer>
+  )
+
+  const result = new Uint8Array(IV_BYTES + ciphertext.byteLength)
+  result.set(iv)
+  result.set(new Uint8Array(ciphertext), IV_BYTES)
+  return result
+}
+
+/**
+ * Decrypts data produced by `encryptUpdate`. Rejects when the key does not match
+ * or the data was tampered with, since AES-GCM authenticates the ciphertext.
+ */
+export const decryptUpdate = async (data: Uint8Array, key: EncryptionKey) => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: data.subarray(0, IV_BYTES) as Uint8Array<ArrayBuffer> },
+    await resolveKey(key),
+    data.subarray(IV_BYTES) as Uint8Array<ArrayBuffer>
+  )
+  return new Uint8Array(plaintext)
+}
+
+export type SigningKey = CryptoKey | (() => CryptoKey | Promise<CryptoKey>)
+
+/**
+ * Serializes a value as JSON with object keys sorted and undefined fields dropped,
+ * so both ends sign the same bytes even if the transport reorders keys.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+
+  const entries = Object.entries(value)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`)
+  return `{${entries.join(',')}}`
+}
+
+/**
+ * Signs a message with HMAC.
+ * @returns The base64-encoded signature
+ */
+export const signMessage = async (message: string, key: SigningKey) => {
+  const signature = await crypto.subtle.sign('HMAC', await resolveKey(key), new TextEncoder().encode(message))
+  return encodeUpdate(new Uint8Array(signature))
+}
+
+export const verifyMessage = async (message: string, signature: string, key: SigningKey) =>
+  crypto.subtle.verify(
+    'HMAC',
+    await resolveKey(key),
+    decodeUpdate(signature) as Uint8Array<ArrayBuffer>,
+    new TextEncoder().encode(message)
+  )
+
+const IDENTITY_KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' }
+const IDENTITY_SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' }
+
+/**
+ * Generates a device key pair for signing messages as an auth user. The private key cannot be exported.
+ */
+export const generateIdentityKeyPair = () =>
+  crypto.subtle.generateKey(IDENTITY_KEY_ALGORITHM, false, ['sign', 'verify'])
+
+export const exportPublicKey = async (key: CryptoKey) =>
+  encodeUpdate(new Uint8Array(await crypto.subtle.exportKey('spki', key)))
+
+export const importPublicKey = (encoded: string) =>
+  crypto.subtle.importKey('spki', decodeUpdate(encoded) as Uint8Array<ArrayBuffer>, IDENTITY_KEY_ALGORITHM, false, [
+    'verify',
+  ])
+
+/**
+ * Signs a message with a device's ECDSA private key.
+ * @returns The base64-encoded signature
+ */
+export const signIdentity = async (message: string, key: CryptoKey) => {
+  const signature = await crypto.subtle.sign(IDENTITY_SIGNATURE_ALGORITHM, key, new TextEncoder().encode(message))
+  return encodeUpdate(new Uint8Array(signature))
+}
+
+export const verifyIdentity = (message: string, signature: string, key: CryptoKey) =>
+  crypto.subtle.verify(
+    IDENTITY_SIGNATURE_ALGORITHM,
+    key,
+    decodeUpdate(signature) as Uint8Array<ArrayBuffer>,
+    new TextEncoder().encode(message)
+  )
+
+/**
+ * Encodes an update for storage. Compressed updates are prefixed with the codec name
+ * and encrypted ones with `aes-gcm`, outermost first (`aes-gcm:deflate:...`).
+ * Base64 never contains `:`, so the prefixes cannot be mistaken for data.
+ */
+export const encodeStoredUpdate = async (
+  update: Uint8Array,
+  codec: CompressionCodec | null,
+  encryption: EncryptionKey | null = null
+) => {
+  const prefixes: string[] = []
+  let data = update
+
+  if (codec) {
+    const compressed = await compressUpdate(update, codec)
+    data = compressed.data
+    if (compressed.compression) prefixes.push(compressed.compression)
+  }
+
+  if (encryption) {
+    data = await encryptUpdate(data, encryption)
+    prefixes.unshift(ENCRYPTION_NAME)
+  }
+
+  return [...prefixes, encodeUpdate(data)].join(':')
+}
+
+export const decodeStoredUpdate = async (
+  encoded: string,
+  codec: CompressionCodec | null,
+  encryption: EncryptionKey | null = null
+) => {
+  const parts = encoded.split(':')
+  let data = decodeUpdate(parts.pop()!)
+
+  if (parts[0] === ENCRYPTION_NAME) {
+    parts.shift()
+    if (!encryption) throw new Error('Stored state is encrypted, but no encryption key is configured')
+    try {
+      data = await decryptUpdate(data, encryption)
+    } catch {
+      throw new Error('Failed to decrypt stored state: wrong encryption key or corrupted data')
+    }
+  } else if (encryption) {
+    throw new Error('Stored state is not encrypted, but encryption is enabled')
+  }
+
+  for (const name of parts) {
+    data = await getCodec(name, codec).decompress(data)
+  }
+  return data
+}
@@ -6,6 +6,12 @@ import { encodeUpdate } from '../src/utils'
 // Mock Supabase client that simulates PostgREST behavior
 const createMockSupabase = () => {
   const store = new Map<string, Record<string, string>>()
+  const log = new Map<string, Array<Record<string, string | number>>>()
+  // Snapshot versions by `${table key}:${room}`. Rows without one are at version 0, the column default
+  const versions = new Map<string, number>()
+  let nextSeq = 1
+  // Let tests simulate other clients writing between this client's reads and writes
+  const hooks: { afterRead?: (kind: 'snapshot' | 'log') => void; beforeSnapshotWrite?: () => void } = {}
 
   const createQueryBuilder = (schemaName = 'public') => {
     let tableName = ''
@@ -31,19 +37,51 @@ const createMockSupabase = () => {
         const key = `${schemaName}.${tableName}`
         const rows = store.get(key)
 
-        if (!rows || !rows[filterValue]) {
-          return Promise.resolve({
-            data: null,
-            error: { code: 'PGRST116', message: 'No rows found' },
-          })
+        const [stateColumn, versionColumn] = selectedColumn.split(', ')
+        const version = versionColumn ? { [versionColumn]: versions.get(`${key}:${filterValue}`) ?? 0 } : {}
+
+        const result =
+          !rows || !rows[filterValue]
+            ? { data: null, error: { code: 'PGRST116', message: 'No rows found' } }
+            : { data: { [filterColumn]: filterValue, [stateColumn]: rows[filterValue], ...version }, error: null }
+        hooks.afterRead?.('snapshot')
+        return Promise.resolve(result)
+      },
+      order(column: string) {
+        const key = `${schemaName}.${tableName}`
+        const rows = (log.get(key) ?? [])
+          .filter((row) => row[filterColumn] === filterValue)
+          .sort((a, b) => Number(a[column]) - Number(b[column]))
+        hooks.afterRead?.('log')
+        return Promise.resolve({ data: rows, error: null })
+      },
+      insert(row: Record<string, string | number>) {
+        const key = `${schemaName}.${tableName}`
+
+        // Only snapshot rows carry a (numeric) version
+        const [roomCol, stateCol, versionCol] = Object.keys(row)
+        if (typeof row[versionCol] === 'number') {
+          hooks.beforeSnapshotWrite?.()
+          const room = row[roomCol] as string
+          if (!store.has(key)) {
+            store.set(key, {})
+          }
+          if (store.get(key)![room] !== undefined) {
+            return Promise.resolve({ error: { code: '23505', message: 'duplicate key value' } })
+          }
+          store.get(key)![room] = row[stateCol] as string
+          versions.set(`${key}:${room}`, row[versionCol] as number)
+          return Promise.resolve({ error: null })
         }
 
-        return Promise.resolve({
-          data: { [filterColumn]: filterValue, [selectedColumn]: rows[filterValue] },
-          error: null,
-        })
+        if (!log.has(key)) {
+          log.set(key, [])
+        }
+        log.get(key)!.push({ ...row, seq: nextSeq++ })
+        return Promise.resolve({ error: null })
       },
       upsert(row: Record<string, string>, _options?: { onConflict: string }) {
+        hooks.beforeSnapshotWrite?.()
         const key = `${schemaName}.${tableName}`
         if (!store.has(key)) {
           store.set(key, {})
@@ -53,17 +91,64 @@ const createMockSupabase = () => {
         store.get(key)![row[roomCol]] = row[stateCol]
         return Promise.resolve({ error: null })
       },
+      update(values: Record<string, string | number>) {
+        const key = `${schemaName}.${tableName}`
+        const [stateCol, versionCol] = Object.keys(values)
+        const filters: Record<string, string | number> = {}
+
+        const query = {
+          eq(column: string, value: string | number) {
+            filters[column] = value
+            return query
+          },
+          select() {
+            hooks.beforeSnapshotWrite?.()
+            const room = Object.values(filters).find((value) => typeof value === 'string') as string
+            const rows = store.get(key)
+            const versionKey = `${key}:${room}`
+            if (!rows || rows[room] === undefined || (versions.get(versionKey) ?? 0) !== filters[versionCol]) {
+              return Promise.resolve({ data: [], error: null })
+            }
+            rows[room] = values[stateCol] as string
+            versions.set(versionKey, values[versionCol] as number)
+            return Promise.resolve({ data: [{ room }], error: null })
+          },
+        }
+
+        return query
+      },
       delete() {
-        return {
+        const key = `${schemaName}.${tableName}`
+        const filters: Array<(row: Record<string, string | number>) => boolean> = []
+        let room = ''
+
+        const query = {
           eq(column: string, value: string) {
-            const key = `${schemaName}.${tableName}`
+            room = value
+            filters.push((row) => row[column] === value)
+            return query
+          },
+          in(column: string, values: number[]) {
+            filters.push((row) => values.includes(Number(row[column])))
+            return query
+          },
+          then(resolve: (result: { error: null }) => void) {
             const rows = store.get(key)
             if (rows) {
-              delete rows[value]
+              delete rows[room]
+            }
+            const logRows = log.get(key)
+            if (logRows) {
+              log.set(
+                key,
+                logRows.filter((row) => !filters.every((filter) => filter(row)))
+              )
             }
-            return Promise.resolve({ error: null })
+            resolve({ error: null })
           },
         }
+
+        return query
       },
     }
 
@@ -75,8 +160,13 @@ const createMockSupabase = () => {
       return createQueryBuilder(name)
     },
     _store: store,
+    _log: log,
+    _versions: versions,
+    _hooks: hooks,
     _reset() {
       store.clear()
+      log.clear()
+      versions.clear()
     },
   }
 
@@ -98,6 +188,8 @@ const seedState = (
   }
   const state = Y.encodeStateAsUpdate(doc)
   mockSupabase._store.get(key)![roomName] = encodeUpdate(state)
+  // Like a compaction by another client, which bumps the version
+  mockSupabase._versions.set(`${key}:${roomName}`, (mockSupabase._versions.get(`${key}:${roomName}`) ?? 0) + 1)
 }
 
 describe('SupabasePersistence', () => {
@@ -570,6 +662,408 @@ describe('SupabasePersistence', () => {
     })
   })
 
+  describe('update log mode', () => {
+    const logOptions = { updatesTable: 'yjs_updates' }
+    const logKey = 'public.yjs_updates'
+    const snapshotKey = 'public.yjs_documents'
+
+    it('should append incremental updates instead of rewriting the snapshot', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'a')
+      await vi.advanceTimersByTimeAsync(1000)
+      doc.getText('test').insert(1, 'b')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      const rows = mockSupabase._log.get(logKey)!
+      expect(rows).toHaveLength(2)
+      expect(rows[0]).toMatchObject({ room: 'test-room', seq: expect.any(Number) })
+      expect(mockSupabase._store.get(snapshotKey)?.['test-room']).toBeUndefined()
+
+      await persistence.destroy()
+    })
+
+    it('should merge several debounced updates into one log entry', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'a')
+      doc.getText('test').insert(1, 'b')
+      doc.getText('test').insert(2, 'c')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(mockSupabase._log.get(logKey)).toHaveLength(1)
+
+      await persistence.destroy()
+    })
+
+    it('should load the snapshot plus trailing log entries', async () => {
+      const sourceDoc = new Y.Doc()
+      sourceDoc.getText('test').insert(0, 'snapshot')
+      seedState(mockSupabase, 'test-room', sourceDoc)
+
+      const beforeEdit = Y.encodeStateVector(sourceDoc)
+      sourceDoc.getText('test').insert(8, ' + log')
+      mockSupabase._log.set(logKey, [
+        { room: 'test-room', seq: 1, update: encodeUpdate(Y.encodeStateAsUpdate(sourceDoc, beforeEdit)) },
+      ])
+
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+
+      await vi.runAllTimersAsync()
+
+      expect(doc.getText('test').toString()).toBe('snapshot + log')
+      // Nothing local was missing from the persisted state, so nothing new is appended
+      expect(mockSupabase._log.get(logKey)).toHaveLength(1)
+
+      await persistence.destroy()
+    })
+
+    it('should compact the log into the snapshot once the threshold is reached', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        ...logOptions,
+        compactAfterUpdates: 3,
+      })
+
+      await vi.runAllTimersAsync()
+
+      for (const char of ['a', 'b', 'c']) {
+        doc.getText('test').insert(doc.getText('test').length, char)
+        await vi.advanceTimersByTimeAsync(1000)
+      }
+
+      expect(mockSupabase._log.get(logKey)).toHaveLength(0)
+
+      const restoredDoc = new Y.Doc()
+      const { decodeUpdate } = await import('../src/utils')
+      Y.applyUpdate(restoredDoc, decodeUpdate(mockSupabase._store.get(snapshotKey)!['test-room']))
+      expect(restoredDoc.getText('test').toString()).toBe('abc')
+
+      await persistence.destroy()
+    })
+
+    it('should compact once the log passes the byte threshold', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        ...logOptions,
+        compactAfterBytes: 64,
+      })
+
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'x'.repeat(100))
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(mockSupabase._log.get(logKey)).toHaveLength(0)
+      expect(mockSupabase._store.get(snapshotKey)?.['test-room']).toBeDefined()
+
+      await persistence.destroy()
+    })
+
+    it('should not lose entries another client compacts while loading', async () => {
+      const sourceDoc = new Y.Doc()
+      sourceDoc.getText('test').insert(0, 'folded')
+      mockSupabase._log.set(logKey, [
+        { room: 'test-room', seq: 1, update: encodeUpdate(Y.encodeStateAsUpdate(sourceDoc)) },
+      ])
+
+      // Another client folds the log into the snapshot right after our first read
+      mockSupabase._hooks.afterRead = () => {
+        mockSupabase._hooks.afterRead = undefined
+        seedState(mockSupabase, 'test-room', sourceDoc)
+        mockSupabase._log.set(logKey, [])
+      }
+
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+      await vi.runAllTimersAsync()
+
+      expect(doc.getText('test').toString()).toBe('folded')
+
+      await persistence.destroy()
+    })
+
+    it('should only delete the log entries it compacted', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'hello')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      // An entry with a lower seq commits after compaction read the log
+      const lateDoc = new Y.Doc()
+      lateDoc.getText('late').insert(0, 'late')
+      const lateRow = { room: 'test-room', seq: 0, update: encodeUpdate(Y.encodeStateAsUpdate(lateDoc)) }
+      mockSupabase._hooks.beforeSnapshotWrite = () => {
+        mockSupabase._hooks.beforeSnapshotWrite = undefined
+        mockSupabase._log.get(logKey)!.push(lateRow)
+      }
+
+      await persistence.compact()
+
+      expect(mockSupabase._log.get(logKey)).toEqual([lateRow])
+
+      await persistence.destroy()
+    })
+
+    it('should merge the stored snapshot when compacting', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'local')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      // Another client compacted entries we never received into the snapshot
+      const otherDoc = new Y.Doc()
+      otherDoc.getText('other').insert(0, 'other')
+      seedState(mockSupabase, 'test-room', otherDoc)
+
+      await persistence.compact()
+
+      const restoredDoc = new Y.Doc()
+      const { decodeUpdate } = await import('../src/utils')
+      Y.applyUpdate(restoredDoc, decodeUpdate(mockSupabase._store.get(snapshotKey)!['test-room']))
+      expect(restoredDoc.getText('test').toString()).toBe('local')
+      expect(restoredDoc.getText('other').toString()).toBe('other')
+
+      await persistence.destroy()
+    })
+
+    it('should retry instead of overwriting a snapshot another client compacted concurrently', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'local')
+      await vi.advanceTimersByTimeAsync(1000)
+      await persistence.compact()
+
+      doc.getText('test').insert(5, ' edit')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      // After we read the log and snapshot, another client appends an entry, compacts
+      // everything into the snapshot and deletes the log
+      const otherDoc = new Y.Doc()
+      otherDoc.getText('other').insert(0, 'other')
+      mockSupabase._hooks.beforeSnapshotWrite = () => {
+        mockSupabase._hooks.beforeSnapshotWrite = undefined
+        const compacted = new Y.Doc()
+        Y.applyUpdate(compacted, Y.encodeStateAsUpdate(doc))
+        Y.applyUpdate(compacted, Y.encodeStateAsUpdate(otherDoc))
+        seedState(mockSupabase, 'test-room', compacted)
+        mockSupabase._log.set(logKey, [])
+      }
+
+      await persistence.compact()
+
+      const restoredDoc = new Y.Doc()
+      const { decodeUpdate } = await import('../src/utils')
+      Y.applyUpdate(restoredDoc, decodeUpdate(mockSupabase._store.get(snapshotKey)!['test-room']))
+      expect(restoredDoc.getText('test').toString()).toBe('local edit')
+      expect(restoredDoc.getText('other').toString()).toBe('other')
+
+      await persistence.destroy()
+    })
+
+    it('should flush pending log entries on destroy', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'pending')
+      await persistence.destroy()
+
+      expect(mockSupabase._log.get(logKey)).toHaveLength(1)
+    })
+
+    it('should clear both the snapshot and the log', async () => {
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, logOptions)
+
+      await vi.runAllTimersAsync()
+
+      doc.getText('test').insert(0, 'hello')
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(mockSupabase._log.get(logKey)).toHaveLength(1)
+
+      await persistence.clearData()
+
+      expect(mockSupabase._log.get(logKey)).toHaveLength(0)
+    })
+  })
+
+  describe('compression', () => {
+    it('should store compressed state and restore it', async () => {
+      const content = 'compressed state '.repeat(100)
+      const doc1 = new Y.Doc()
+      doc1.getText('test').insert(0, content)
+
+      const persistence1 = new SupabasePersistence('test-room', doc1, mockSupabase as never, {
+        compression: true,
+      })
+      await vi.waitFor(() => expect(persistence1.synced).toBe(true))
+      await persistence1.destroy()
+
+      const stored = mockSupabase._store.get('public.yjs_documents')!['test-room']
+      expect(stored.startsWith('deflate:')).toBe(true)
+
+      // Readers without compression enabled can still decode the stored state
+      const persistence2 = new SupabasePersistence('test-room', doc, mockSupabase as never)
+      await vi.waitFor(() => expect(persistence2.synced).toBe(true))
+
+      expect(doc.getText('test').toString()).toBe(content)
+
+      await persistence2.destroy()
+    })
+
+    it('should load uncompressed state when compression is enabled', async () => {
+      const sourceDoc = new Y.Doc()
+      sourceDoc.getText('test').insert(0, 'plain state')
+      seedState(mockSupabase, 'test-room', sourceDoc)
+
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        compression: true,
+      })
+      await vi.waitFor(() => expect(persistence.synced).toBe(true))
+
+      expect(doc.getText('test').toString()).toBe('plain state')
+
+      await persistence.destroy()
+    })
+  })
+
+  describe('encryption', () => {
+    const createKey = () =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+    it('should store encrypted state and restore it with the same key', async () => {
+      const key = await createKey()
+      const doc1 = new Y.Doc()
+      doc1.getText('test').insert(0, 'secret state')
+
+      const persistence1 = new SupabasePersistence('test-room', doc1, mockSupabase as never, {
+        encryption: key,
+        compression: true,
+      })
+      await vi.waitFor(() => expect(persistence1.synced).toBe(true))
+      await persistence1.destroy()
+
+      const stored = mockSupabase._store.get('public.yjs_documents')!['test-room']
+      expect(stored.startsWith('aes-gcm:')).toBe(true)
+      expect(atob(stored.split(':').pop()!)).not.toContain('secret state')
+
+      const persistence2 = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        encryption: key,
+        compression: true,
+      })
+      await vi.waitFor(() => expect(persistence2.synced).toBe(true))
+
+      expect(doc.getText('test').toString()).toBe('secret state')
+
+      await persistence2.destroy()
+    })
+
+    it('should emit an error and never overwrite stored state with the wrong key', async () => {
+      const doc1 = new Y.Doc()
+      doc1.getText('test').insert(0, 'secret state')
+      const persistence1 = new SupabasePersistence('test-room', doc1, mockSupabase as never, {
+        encryption: await createKey(),
+      })
+      await vi.waitFor(() => expect(persistence1.synced).toBe(true))
+      await persistence1.destroy()
+      const stored = mockSupabase._store.get('public.yjs_documents')!['test-room']
+
+      const persistence2 = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        encryption: await createKey(),
+      })
+      const errorHandler = vi.fn()
+      persistence2.on('error', errorHandler)
+      await vi.waitFor(() => expect(persistence2.synced).toBe(true))
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Failed to decrypt stored state: wrong encryption key or corrupted data' })
+      )
+      expect(mockSupabase._store.get('public.yjs_documents')!['test-room']).toBe(stored)
+
+      // Later edits must not replace the state we could not read
+      doc.getText('test').insert(0, 'x')
+      await vi.advanceTimersByTimeAsync(2000)
+      await persistence2.compact()
+      await persistence2.destroy()
+      expect(mockSupabase._store.get('public.yjs_documents')!['test-room']).toBe(stored)
+    })
+
+    it('should reject unencrypted stored state and never overwrite it when encryption is enabled', async () => {
+      const sourceDoc = new Y.Doc()
+      sourceDoc.getText('test').insert(0, 'plain state')
+      seedState(mockSupabase, 'test-room', sourceDoc)
+      const stored = mockSupabase._store.get('public.yjs_documents')!['test-room']
+
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        encryption: await createKey(),
+      })
+      const errorHandler = vi.fn()
+      persistence.on('error', errorHandler)
+      await vi.waitFor(() => expect(persistence.synced).toBe(true))
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Stored state is not encrypted, but encryption is enabled' })
+      )
+      expect(doc.getText('test').toString()).toBe('')
+
+      doc.getText('test').insert(0, 'x')
+      await vi.advanceTimersByTimeAsync(2000)
+      await persistence.destroy()
+      expect(mockSupabase._store.get('public.yjs_documents')!['test-room']).toBe(stored)
+    })
+
+    it('should not write to the update log after failing to decrypt it', async () => {
+      const doc1 = new Y.Doc()
+      const persistence1 = new SupabasePersistence('test-room', doc1, mockSupabase as never, {
+        encryption: await createKey(),
+        updatesTable: 'yjs_updates',
+      })
+      await vi.waitFor(() => expect(persistence1.synced).toBe(true))
+      doc1.getText('test').insert(0, 'secret state')
+      await persistence1.destroy()
+      const logLength = mockSupabase._log.get('public.yjs_updates')!.length
+
+      const persistence2 = new SupabasePersistence('test-room', doc, mockSupabase as never, {
+        encryption: await createKey(),
+        updatesTable: 'yjs_updates',
+        compactAfterUpdates: 1,
+      })
+      await vi.waitFor(() => expect(persistence2.synced).toBe(true))
+
+      doc.getText('test').insert(0, 'x')
+      await vi.advanceTimersByTimeAsync(2000)
+      await persistence2.compact()
+      await persistence2.destroy()
+
+      expect(mockSupabase._log.get('public.yjs_updates')).toHaveLength(logLength)
+      expect(mockSupabase._store.get('public.yjs_documents')).toBeUndefined()
+    })
+  })
+
+  describe('read-only mode', () => {
+    it('should load persisted state without ever writing', async () => {
+      const sourceDoc = new Y.Doc()
+      sourceDoc.getText('test').insert(0, 'published')
+      seedState(mockSupabase, 'test-room', sourceDoc)
+      const stored = mockSupabase._store.get('public.yjs_documents')!['test-room']
+
+      const persistence = new SupabasePersistence('test-room', doc, mockSupabase as never, { readOnly: true })
+      await vi.waitFor(() => expect(persistence.synced).toBe(true))
+      expect(doc.getText('test').toString()).toBe('published')
+
+      doc.getText('test').insert(0, 'local ')
+      await vi.advanceTimersByTimeAsync(2000)
+      await persistence.destroy()
+
+      expect(mockSupabase._store.get('public.yjs_documents')!['test-room']).toBe(stored)
+      await expect(persistence.clearData()).rejects.toThrow('Cannot clear persisted data in read-only mode')
+    })
+  })
+
   describe('real-world persistence scenarios', () => {
     it('should persist and restore a document across instances', async () => {
       // First instance creates content
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import * as Y from 'yjs'
-import { encodeUpdate } from '../src/utils'
+import { encodeUpdate, decodeUpdate, deflateCodec } from '../src/utils'
 import { SupabaseProvider } from '../src/SupabaseProvider'
 
 // Mock Supabase client
@@ -21,10 +21,13 @@ const createMockChannel = () => {
     }),
     send: vi.fn(),
     unsubscribe: vi.fn(),
+    track: vi.fn(() => Promise.resolve('ok')),
+    presenceState: vi.fn((): Record<string, unknown[]> => ({})),
     // Test helpers
     _listeners: listeners,
     _triggerSubscribe: (status: string, err?: Error) => subscribeCallback?.(status, err),
-    _triggerEvent: (event: string, payload: unknown) => listeners[event]?.({ payload }),
+    _triggerEvent: (event: string, payload: unknown) => listeners['*']?.({ event, payload }),
+    _triggerPresence: (event: string, payload?: unknown) => listeners[event]?.(payload),
   }
 
   return channel
@@ -39,6 +42,29 @@ const createMockSupabase = () => {
   }
 }
 
+// Wire mock clients together so every send is delivered to all other clients.
+// Clients in the returned `offline` set neither send nor receive.
+const connectRoom = (clients: ReturnType<typeof createMockSupabase>[]) => {
+  const offline = new Set<ReturnType<typeof createMockSupabase>>()
+
+  clients.forEach((sender) => {
+    sender._mockChannel.send.mockImplementation((message: { event: string; payload: unknown }) => {
+      if (offline.has(sender)) return
+      clients.forEach((receiver) => {
+        if (receiver !== sender && !offline.has(receiver)) {
+          receiver._mockChannel._triggerEvent(message.event, message.payload)
+        }
+      })
+    })
+  })
+
+  return { offline }
+}
+
+// Room-wide and targeted document updates a client has sent
+const updateCalls = (client: ReturnType<typeof createMockSupabase>) =>
+  client._mockChannel.send.mock.calls.filter((call) => call[0]?.event === 'y-supabase-update')
+
 describe('SupabaseProvider', () => {
   let doc: Y.Doc
   let mockSupabase: ReturnType<typeof createMockSupabase>
@@ -59,7 +85,7 @@ describe('SupabaseProvider', () => {
 
       expect(provider).toBeInstanceOf(SupabaseProvider)
       expect(provider.getStatus()).toBe('connecting')
-      expect(mockSupabase.channel).toHaveBeenCalledWith('test-channel')
+      expect(mockSupabase.channel).toHaveBeenCalledWith('test-channel', expect.any(Object))
     })
 
     it('should accept optional options', () => {
@@ -248,6 +274,72 @@ describe('SupabaseProvider', () => {
       expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
     })
 
+    it('should send a batch early once it reaches maxBatchUpdates', async () => {
+      new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        broadcastThrottleMs: 100,
+        maxBatchUpdates: 3,
+      })
+
+      await vi.runAllTimersAsync()
+      mockSupabase._mockChannel.send.mockClear()
+
+      const ytext = doc.getText('test')
+      ytext.insert(0, 'a')
+      ytext.insert(1, 'b')
+      expect(mockSupabase._mockChannel.send).not.toHaveBeenCalled()
+
+      ytext.insert(2, 'c')
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+
+      // The batch timer was cleared along with the early send
+      await vi.advanceTimersByTimeAsync(100)
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send a batch early once it reaches maxBatchBytes', async () => {
+      new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        broadcastThrottleMs: 100,
+        maxBatchBytes: 1000,
+      })
+
+      await vi.runAllTimersAsync()
+      mockSupabase._mockChannel.send.mockClear()
+
+      const ytext = doc.getText('test')
+      ytext.insert(0, 'a')
+      expect(mockSupabase._mockChannel.send).not.toHaveBeenCalled()
+
+      // A large paste goes out right away, together with the keystroke before it
+      ytext.insert(1, 'x'.repeat(2000))
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send the first update immediately in leading-edge mode', async () => {
+      new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        broadcastThrottleMs: 100,
+        broadcastLeadingEdge: true,
+      })
+
+      await vi.runAllTimersAsync()
+      mockSupabase._mockChannel.send.mockClear()
+
+      const ytext = doc.getText('test')
+      ytext.insert(0, 'a')
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+
+      // Follow-ups within the window are batched
+      ytext.insert(1, 'b')
+      ytext.insert(2, 'c')
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(2)
+
+      // Once the window has closed, the next update is sent immediately again
+      ytext.insert(3, 'd')
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(3)
+    })
+
     it('should not broadcast updates with remote origin', async () => {
       new SupabaseProvider('test-channel', doc, mockSupabase as never)
 
@@ -273,7 +365,26 @@ describe('SupabaseProvider', () => {
       expect(mockSupabase.removeChannel).toHaveBeenCalled()
     })
 
-    it('should clear pending broadcast timeout on destroy', async () => {
+    it('should report disconnected after destroy', async () => {
+      // realtime-js fires CLOSED from removeChannel
+      mockSupabase.removeChannel.mockImplementation(() => mockSupabase._mockChannel._triggerSubscribe('CLOSED'))
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+      await vi.runAllTimersAsync()
+      expect(provider.getStatus()).toBe('connected')
+
+      const statusHandler = vi.fn()
+      const disconnectHandler = vi.fn()
+      provider.on('status', statusHandler)
+      provider.on('disconnect', disconnectHandler)
+
+      provider.destroy()
+
+      expect(provider.getStatus()).toBe('disconnected')
+      expect(statusHandler).toHaveBeenCalledExactlyOnceWith('disconnected')
+      expect(disconnectHandler).toHaveBeenCalledExactlyOnceWith(provider)
+    })
+
+    it('should flush pending throttled updates on destroy', async () => {
       const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
         broadcastThrottleMs: 100,
       })
@@ -287,14 +398,57 @@ describe('SupabaseProvider', () => {
       // Destroy before throttle completes
       provider.destroy()
 
-      // Advance past throttle time
+      // The pending update is sent before the channel is removed
+      expect(updateCalls(mockSupabase).length).toBe(1)
+      expect(mockSupabase._mockChannel.send.mock.invocationCallOrder.at(-1)!).toBeLessThan(
+        mockSupabase.removeChannel.mock.invocationCallOrder[0]
+      )
+
+      // Advance past throttle time: the cleared timer sends nothing more
       await vi.advanceTimersByTimeAsync(200)
+      expect(updateCalls(mockSupabase).length).toBe(1)
+    })
 
-      // Should only have the state vector send, not the update
-      const updateCalls = mockSupabase._mockChannel.send.mock.calls.filter(
-        (call) => call[0]?.event === 'y-supabase-update'
-      )
-      expect(updateCalls.length).toBe(0)
+    it('should send throttled updates that are still being compressed before closing on destroy', async () => {
+      const doc2 = new Y.Doc()
+      const mockSupabase2 = createMockSupabase()
+      connectRoom([mockSupabase, mockSupabase2])
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        broadcastThrottleMs: 500,
+        compression: true,
+      })
+      const provider2 = new SupabaseProvider('test-channel', doc2, mockSupabase2 as never)
+      await vi.advanceTimersByTimeAsync(10)
+
+      doc.getText('test').insert(0, 'hello')
+      provider.destroy()
+
+      // Compression finishes after destroy() returns; the channel waits for it
+      expect(mockSupabase.removeChannel).not.toHaveBeenCalled()
+      await vi.waitFor(() => expect(mockSupabase.removeChannel).toHaveBeenCalled())
+      expect(doc2.getText('test').toString()).toBe('hello')
+
+      provider2.destroy()
+    })
+
+    it('should send the throttle buffer immediately on flush()', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        broadcastThrottleMs: 100,
+      })
+
+      await vi.runAllTimersAsync()
+      mockSupabase._mockChannel.send.mockClear()
+
+      doc.getText('test').insert(0, 'a')
+      doc.getText('test').insert(1, 'b')
+      provider.flush()
+
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
+      expect(vi.getTimerCount()).toBe(0)
+
+      // Nothing pending: flush is a no-op
+      provider.flush()
+      expect(mockSupabase._mockChannel.send).toHaveBeenCalledTimes(1)
     })
 
     it('should stop listening to document updates after destroy', async () => {
@@ -353,6 +507,218 @@ describe('SupabaseProvider', () => {
       expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
       expect(mockSupabase._mockChannel.subscribe).toHaveBeenCalledTimes(1)
     })
+
+    it('should report the scheduled reconnect and go back to connecting', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        reconnectStrategy: (attempt) => attempt * 1000,
+      })
+      const statusHandler = vi.fn()
+      const scheduledHandler = vi.fn()
+      provider.on('status', statusHandler)
+      provider.on('reconnect-scheduled', scheduledHandler)
+      await vi.runAllTimersAsync()
+
+      mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      expect(provider.getStatus()).toBe('reconnecting')
+      expect(scheduledHandler).toHaveBeenCalledWith({ attempt: 1, delay: 1000 })
+
+      mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      expect(scheduledHandler).toHaveBeenLastCalledWith({ attempt: 2, delay: 2000 })
+
+      statusHandler.mockClear()
+      await vi.advanceTimersByTimeAsync(2010)
+      expect(statusHandler.mock.calls.map(([status]) => status)).toEqual(['connecting', 'connected'])
+    })
+
+    it('should fail once the reconnect attempts are exhausted', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { maxReconnectAttempts: 1 })
+      const exhaustedHandler = vi.fn()
+      provider.on('reconnect-exhausted', exhaustedHandler)
+      await vi.runAllTimersAsync()
+
+      mockSupabase._mockChannel.subscribe.mockImplementation((callback: (status: string) => void) => {
+        setTimeout(() => callback('CLOSED'), 0)
+        return { unsubscribe: vi.fn() }
+      })
+      mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      expect(provider.getStatus()).toBe('reconnecting')
+      expect(exhaustedHandler).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1010)
+
+      expect(provider.getStatus()).toBe('failed')
+      expect(exhaustedHandler).toHaveBeenCalledWith(1)
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('should pause reconnecting while offline and resume on the online event', async () => {
+      const navigator = { onLine: true }
+      const window = new EventTarget()
+      vi.stubGlobal('navigator', navigator)
+      vi.stubGlobal('window', window)
+      try {
+        const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+        await vi.runAllTimersAsync()
+        mockSupabase.channel.mockClear()
+
+        navigator.onLine = false
+        mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+        expect(provider.getStatus()).toBe('offline')
+        expect(vi.getTimerCount()).toBe(0)
+
+        navigator.onLine = true
+        window.dispatchEvent(new Event('online'))
+        expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+        await vi.advanceTimersByTimeAsync(10)
+        expect(provider.getStatus()).toBe('connected')
+
+        provider.destroy()
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+
+    it('should reconnect right away when the page becomes visible', async () => {
+      const document = Object.assign(new EventTarget(), { visibilityState: 'hidden' })
+      vi.stubGlobal('document', document)
+      try {
+        const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { reconnectDelay: 10000 })
+        await vi.runAllTimersAsync()
+        mockSupabase.channel.mockClear()
+
+        mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+        document.dispatchEvent(new Event('visibilitychange'))
+        expect(mockSupabase.channel).not.toHaveBeenCalled()
+
+        document.visibilityState = 'visible'
+        document.dispatchEvent(new Event('visibilitychange'))
+        expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+
+        // Showing the page while connected does nothing
+        await vi.advanceTimersByTimeAsync(10)
+        document.dispatchEvent(new Event('visibilitychange'))
+        expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+
+        provider.destroy()
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+
+    it('should report offline while the browser has no network', async () => {
+      vi.stubGlobal('navigator', { onLine: false })
+      try {
+        const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+        await vi.runAllTimersAsync()
+
+        mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+        expect(provider.getStatus()).toBe('offline')
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+
+    it('should jitter the default backoff', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        reconnectDelay: 1000,
+        maxReconnectDelay: 4000,
+      })
+      const delays: number[] = []
+      provider.on('reconnect-scheduled', ({ delay }) => delays.push(delay))
+      await vi.runAllTimersAsync()
+
+      for (let i = 0; i < 4; i++) {
+        mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      }
+
+      // Each delay falls in the upper half of 1s, 2s, 4s, then stays capped at 4s
+      const bounds = [1000, 2000, 4000, 4000]
+      delays.forEach((delay, i) => {
+        expect(delay).toBeGreaterThanOrEqual(bounds[i] / 2)
+        expect(delay).toBeLessThanOrEqual(bounds[i])
+      })
+    })
+
+    it('should use the reconnect strategy and give up when it returns null', async () => {
+      const reconnectStrategy = vi.fn((attempt: number) => (attempt < 2 ? 500 : null))
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { reconnectStrategy })
+      const exhaustedHandler = vi.fn()
+      provider.on('reconnect-exhausted', exhaustedHandler)
+      await vi.runAllTimersAsync()
+
+      const err = new Error('boom')
+      mockSupabase._mockChannel._triggerSubscribe('CHANNEL_ERROR', err)
+      expect(reconnectStrategy).toHaveBeenCalledWith(1, err)
+      expect(provider.getStatus()).toBe('reconnecting')
+
+      mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      expect(reconnectStrategy).toHaveBeenLastCalledWith(2, undefined)
+      expect(provider.getStatus()).toBe('failed')
+      expect(exhaustedHandler).toHaveBeenCalledWith(1)
+    })
+
+    it('should skip the backoff with retryNow', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { reconnectDelay: 10000 })
+      await vi.runAllTimersAsync()
+      mockSupabase.channel.mockClear()
+
+      mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+      provider.retryNow()
+
+      expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+      expect(provider.getStatus()).toBe('connecting')
+
+      await vi.advanceTimersByTimeAsync(10)
+      expect(provider.getStatus()).toBe('connected')
+
+      // The skipped timer does not reconnect a second time
+      await vi.advanceTimersByTimeAsync(10000)
+      expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+
+      // Nothing to skip while connected
+      provider.retryNow()
+      expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop reconnecting when the channel is not authorized', async () => {
+      const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { private: true })
+      const errorHandler = vi.fn()
+      const disconnectHandler = vi.fn()
+      provider.on('error', errorHandler)
+      provider.on('disconnect', disconnectHandler)
+
+      await vi.runAllTimersAsync()
+      mockSupabase.channel.mockClear()
+
+      mockSupabase._mockChannel._triggerSubscribe(
+        'CHANNEL_ERROR',
+        new Error('"Unauthorized: You do not have permissions to read from this Channel topic: test-channel"')
+      )
+
+      expect(provider.getStatus()).toBe('unauthorized')
+      expect(errorHandler.mock.calls[0][0].message).toContain('Not authorized to join channel test-channel')
+      expect(disconnectHandler).toHaveBeenCalledWith(provider)
+      expect(mockSupabase.removeChannel).toHaveBeenCalled()
+      expect(vi.getTimerCount()).toBe(0)
+
+      await vi.advanceTimersByTimeAsync(60000)
+      expect(mockSupabase.channel).not.toHaveBeenCalled()
+
+      // An explicit connect() tries again, e.g. after the user was granted access
+      provider.connect()
+      expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+    })
+
+    it('should join a private channel with the given channel config', () => {
+      new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+        private: true,
+        channelConfig: { broadcast: { ack: true } },
+      })
+
+      expect(mockSupabase.channel).toHaveBeenCalledWith('test-channel', {
+        config: expect.objectContaining({ private: true, broadcast: { ack: true } }),
+      })
+    })
   })
 
   describe('getStatus', () => {
@@ -490,6 +856,9 @@ describe('real-world collaboration scenarios', () => {
       timestamp: Date.now(),
     })
 
+    // Replies go out after a short random delay
+    await vi.advanceTimersByTimeAsync(100)
+
     // doc1 should send its content as an update
     const updateCall = mockSupabase1._mockChannel.send.mock.calls.find(
       (call) => call[0]?.event === 'y-supabase-update'
@@ -497,6 +866,65 @@ describe('real-world collaboration scenarios', () => {
     expect(updateCall).toBeDefined()
   })
 
+  it('should address sync replies to the requesting peer', async () => {
+    const doc1 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+
+    doc1.getText('test').insert(0, 'existing content')
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never)
+    await vi.runAllTimersAsync()
+    mockSupabase1._mockChannel.send.mockClear()
+
+    mockSupabase1._mockChannel._triggerEvent('y-supabase-state-vector', {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'peer-2' },
+      timestamp: Date.now(),
+    })
+    await vi.advanceTimersByTimeAsync(100)
+
+    const calls = mockSupabase1._mockChannel.send.mock.calls
+    const updateCall = calls.find((call) => call[0]?.event === 'y-supabase-update')
+    const stateVectorCall = calls.find((call) => call[0]?.event === 'y-supabase-state-vector')
+    expect(updateCall![0].payload.to).toBe('peer-2')
+    expect(stateVectorCall![0].payload.to).toBe('peer-2')
+  })
+
+  it('should ignore sync replies addressed to another peer', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    doc1.getText('test').insert(0, 'catch-up data')
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never)
+    const provider2 = new SupabaseProvider('test-channel', doc2, mockSupabase2 as never)
+    await vi.runAllTimersAsync()
+    mockSupabase1._mockChannel.send.mockClear()
+    mockSupabase2._mockChannel.send.mockClear()
+
+    const messageHandler = vi.fn()
+    provider2.on('message', messageHandler)
+
+    // doc1 answers a third peer's state vector
+    mockSupabase1._mockChannel._triggerEvent('y-supabase-state-vector', {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'peer-3' },
+      timestamp: Date.now(),
+    })
+    await vi.advanceTimersByTimeAsync(100)
+
+    // provider2 overhears the room-wide broadcast of that reply
+    mockSupabase1._mockChannel.send.mock.calls.forEach((call) => {
+      mockSupabase2._mockChannel._triggerEvent(call[0].event, call[0].payload)
+    })
+
+    expect(messageHandler).not.toHaveBeenCalled()
+    expect(doc2.getText('test').toString()).toBe('')
+    expect(mockSupabase2._mockChannel.send).not.toHaveBeenCalled()
+  })
+
   it('should sync late-joining client with existing document state', async () => {
     const doc1 = new Y.Doc()
     const doc2 = new Y.Doc()
@@ -523,6 +951,7 @@ describe('real-world collaboration scenarios', () => {
 
     // Simulate client 1 receiving the state vector
     mockSupabase1._mockChannel._triggerEvent('y-supabase-state-vector', stateVectorCall![0].payload)
+    await vi.advanceTimersByTimeAsync(100)
 
     // Client 1 should respond with the diff (its content)
     const diffCall = mockSupabase1._mockChannel.send.mock.calls.find(
@@ -537,6 +966,34 @@ describe('real-world collaboration scenarios', () => {
     expect(doc2.getText('test').toString()).toBe('Existing document content')
   })
 
+  it('should re-sync with peers after reconnecting', async () => {
+    const clients = [createMockSupabase(), createMockSupabase()]
+    const room = connectRoom(clients)
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+
+    new SupabaseProvider('test-channel', doc1, clients[0] as never)
+    new SupabaseProvider('test-channel', doc2, clients[1] as never)
+    await vi.runAllTimersAsync()
+
+    doc1.getText('test').insert(0, 'before ')
+    expect(doc2.getText('test').toString()).toBe('before ')
+
+    // Client 2 drops off: CLOSED, then edits on both sides are lost in transit
+    room.offline.add(clients[1])
+    clients[1]._mockChannel._triggerSubscribe('CLOSED')
+
+    doc1.getText('test').insert(7, 'online edit')
+    doc2.getText('other').insert(0, 'offline edit')
+
+    // Reconnect backoff elapses and the channel is SUBSCRIBED again
+    room.offline.delete(clients[1])
+    await vi.runAllTimersAsync()
+
+    expect(doc2.getText('test').toString()).toBe('before online edit')
+    expect(doc1.getText('other').toString()).toBe('offline edit')
+  })
+
   it('should prevent infinite ping-pong with state vectors', async () => {
     const doc1 = new Y.Doc()
     const mockSupabase1 = createMockSupabase()
@@ -674,6 +1131,1853 @@ describe('error handling', () => {
   })
 })
 
+describe('responder election', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const countRepliesToJoiner = async (roomSize: number) => {
+    const source = new Y.Doc()
+    source.getText('test').insert(0, 'shared document content')
+
+    const clients = Array.from({ length: roomSize + 1 }, () => createMockSupabase())
+    connectRoom(clients)
+
+    for (let i = 0; i < roomSize; i++) {
+      const doc = new Y.Doc()
+      Y.applyUpdate(doc, Y.encodeStateAsUpdate(source))
+      new SupabaseProvider('test-channel', doc, clients[i] as never)
+    }
+    await vi.runAllTimersAsync()
+
+    const joinerDoc = new Y.Doc()
+    const joiner = clients[roomSize]
+    new SupabaseProvider('test-channel', joinerDoc, joiner as never)
+    await vi.runAllTimersAsync()
+
+    const joinerId = joiner._mockChannel.send.mock.calls.find(
+      (call) => call[0]?.event === 'y-supabase-state-vector'
+    )![0].payload.user.id
+
+    const replies = clients
+      .slice(0, roomSize)
+      .flatMap((client) => client._mockChannel.send.mock.calls)
+      .filter((call) => call[0]?.event === 'y-supabase-update' && call[0].payload.to === joinerId)
+
+    expect(joinerDoc.getText('test').toString()).toBe('shared document content')
+    return replies.length
+  }
+
+  it('should keep the number of replies to a joiner bounded as the room grows', async () => {
+    expect(await countRepliesToJoiner(2)).toBe(1)
+    expect(await countRepliesToJoiner(10)).toBe(1)
+    expect(await countRepliesToJoiner(40)).toBe(1)
+  })
+
+  it('should still reply when an overheard reply does not cover everything', async () => {
+    const doc = new Y.Doc()
+    doc.getText('test').insert(0, 'local only')
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+    mockSupabase._mockChannel.send.mockClear()
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'joiner' },
+      timestamp: Date.now(),
+    })
+
+    // Another peer replies with content that does not include ours
+    const otherDoc = new Y.Doc()
+    otherDoc.getText('other').insert(0, 'other content')
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: encodeUpdate(Y.encodeStateAsUpdate(otherDoc)),
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+      to: 'joiner',
+    })
+
+    await vi.advanceTimersByTimeAsync(100)
+
+    const calls = updateCalls(mockSupabase)
+    expect(calls).toHaveLength(1)
+    expect(calls[0][0].payload.to).toBe('joiner')
+    // The overheard reply is not applied locally
+    expect(doc.getText('other').toString()).toBe('')
+  })
+
+  it('should reply immediately when syncReplyDelayMs is 0', async () => {
+    const doc = new Y.Doc()
+    doc.getText('test').insert(0, 'content')
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { syncReplyDelayMs: 0 })
+    await vi.runAllTimersAsync()
+    mockSupabase._mockChannel.send.mockClear()
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'joiner' },
+      timestamp: Date.now(),
+    })
+
+    const updateCall = mockSupabase._mockChannel.send.mock.calls.find(
+      (call) => call[0]?.event === 'y-supabase-update'
+    )
+    expect(updateCall).toBeDefined()
+  })
+})
+
+describe('synced state', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should mark the provider synced after syncTimeoutMs when nobody answers', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      syncTimeoutMs: 500,
+    })
+    const syncHandler = vi.fn()
+    provider.on('sync', syncHandler)
+
+    await vi.advanceTimersByTimeAsync(10)
+    expect(provider.synced).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(provider.synced).toBe(true)
+    expect(syncHandler).toHaveBeenCalledWith(true)
+    await expect(provider.whenSynced()).resolves.toBeUndefined()
+  })
+
+  it('should mark the provider synced once a peer reply has been applied', async () => {
+    const source = new Y.Doc()
+    source.getText('test').insert(0, 'existing content')
+    const clients = [createMockSupabase(), createMockSupabase()]
+    connectRoom(clients)
+
+    const doc1 = new Y.Doc()
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(source))
+    new SupabaseProvider('test-channel', doc1, clients[0] as never)
+    await vi.runAllTimersAsync()
+
+    const doc2 = new Y.Doc()
+    const provider2 = new SupabaseProvider('test-channel', doc2, clients[1] as never)
+    let contentWhenSynced: string | null = null
+    provider2.whenSynced().then(() => {
+      contentWhenSynced = doc2.getText('test').toString()
+    })
+
+    await vi.advanceTimersByTimeAsync(150)
+
+    expect(provider2.synced).toBe(true)
+    expect(contentWhenSynced).toBe('existing content')
+  })
+
+  it('should wait for an async validateUpdate before marking the provider synced', async () => {
+    const source = new Y.Doc()
+    source.getText('test').insert(0, 'existing content')
+    const clients = [createMockSupabase(), createMockSupabase()]
+    connectRoom(clients)
+
+    const doc1 = new Y.Doc()
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(source))
+    new SupabaseProvider('test-channel', doc1, clients[0] as never)
+    await vi.runAllTimersAsync()
+
+    const doc2 = new Y.Doc()
+    const provider2 = new SupabaseProvider('test-channel', doc2, clients[1] as never, {
+      validateUpdate: () => new Promise((resolve) => setTimeout(() => resolve(true), 500)),
+    })
+    let contentWhenSynced: string | null = null
+    provider2.whenSynced().then(() => {
+      contentWhenSynced = doc2.getText('test').toString()
+    })
+
+    // The reply has arrived, but is still being validated
+    await vi.advanceTimersByTimeAsync(150)
+    expect(provider2.synced).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(provider2.synced).toBe(true)
+    expect(contentWhenSynced).toBe('existing content')
+  })
+
+  it('should mark the provider synced when a peer has nothing new for it', async () => {
+    const clients = [createMockSupabase(), createMockSupabase()]
+    connectRoom(clients)
+
+    new SupabaseProvider('test-channel', new Y.Doc(), clients[0] as never)
+    await vi.runAllTimersAsync()
+
+    const provider2 = new SupabaseProvider('test-channel', new Y.Doc(), clients[1] as never)
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(provider2.synced).toBe(true)
+  })
+
+  it('should wait for persistence to load before reporting synced', async () => {
+    let resolveFetch: (value: unknown) => void = () => {}
+    const mockSupabase = createMockSupabase()
+    const supabase = {
+      ...mockSupabase,
+      schema: () => ({
+        from: () => ({
+          select: () => ({
+            eq: () => ({
+              single: () => new Promise((resolve) => (resolveFetch = resolve)),
+            }),
+          }),
+          upsert: () => Promise.resolve({ error: null }),
+        }),
+      }),
+    }
+
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), supabase as never, {
+      persistence: true,
+      syncTimeoutMs: 100,
+    })
+
+    await vi.advanceTimersByTimeAsync(200)
+    expect(provider.synced).toBe(false)
+
+    resolveFetch({ data: null, error: { code: 'PGRST116', message: 'No rows found' } })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(provider.getPersistence()!.synced).toBe(true)
+    expect(provider.synced).toBe(true)
+  })
+
+  it('should reset synced on disconnect', async () => {
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never, {
+      autoReconnect: false,
+    })
+    await vi.runAllTimersAsync()
+    expect(provider.synced).toBe(true)
+
+    const syncHandler = vi.fn()
+    provider.on('sync', syncHandler)
+
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+
+    expect(provider.synced).toBe(false)
+    expect(syncHandler).toHaveBeenCalledWith(false)
+  })
+})
+
+describe('periodic resync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const stateVectorCalls = (client: ReturnType<typeof createMockSupabase>) =>
+    client._mockChannel.send.mock.calls.filter((call) => call[0]?.event === 'y-supabase-state-vector')
+
+  it('should broadcast its state vector every resyncIntervalMs', async () => {
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never, {
+      resyncIntervalMs: 1000,
+    })
+    await vi.advanceTimersByTimeAsync(10)
+    mockSupabase._mockChannel.send.mockClear()
+
+    await vi.advanceTimersByTimeAsync(3000)
+
+    const calls = stateVectorCalls(mockSupabase)
+    expect(calls).toHaveLength(3)
+    expect(calls[0][0].payload).toMatchObject({ resync: true })
+    expect(calls[0][0].payload.to).toBeUndefined()
+
+    provider.destroy()
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(stateVectorCalls(mockSupabase)).toHaveLength(3)
+  })
+
+  it('should not resync by default', async () => {
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    await vi.advanceTimersByTimeAsync(10)
+    mockSupabase._mockChannel.send.mockClear()
+
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(stateVectorCalls(mockSupabase)).toHaveLength(0)
+  })
+
+  it('should recover an update that was dropped in transit', async () => {
+    const clients = [createMockSupabase(), createMockSupabase()]
+    const room = connectRoom(clients)
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+
+    new SupabaseProvider('test-channel', doc1, clients[0] as never, { resyncIntervalMs: 1000 })
+    new SupabaseProvider('test-channel', doc2, clients[1] as never, { resyncIntervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(10)
+
+    // The broadcast of this edit never reaches client 2
+    room.offline.add(clients[1])
+    doc1.getText('test').insert(0, 'dropped update')
+    room.offline.delete(clients[1])
+
+    expect(doc2.getText('test').toString()).toBe('')
+
+    await vi.advanceTimersByTimeAsync(1200)
+
+    expect(doc2.getText('test').toString()).toBe('dropped update')
+  })
+
+  it('should not ping-pong when peers are in sync', async () => {
+    const clients = [createMockSupabase(), createMockSupabase()]
+    connectRoom(clients)
+
+    new SupabaseProvider('test-channel', new Y.Doc(), clients[0] as never, { resyncIntervalMs: 1000 })
+    new SupabaseProvider('test-channel', new Y.Doc(), clients[1] as never, { resyncIntervalMs: 1000 })
+    await vi.advanceTimersByTimeAsync(10)
+    clients.forEach((client) => client._mockChannel.send.mockClear())
+
+    await vi.advanceTimersByTimeAsync(5000)
+
+    clients.forEach((client) => {
+      const calls = client._mockChannel.send.mock.calls
+      // One state vector per interval, and nothing else
+      expect(calls).toHaveLength(5)
+      expect(calls.every((call) => call[0].payload.resync === true)).toBe(true)
+    })
+  })
+})
+
+describe('sequence numbers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const updatePayloads = (client: ReturnType<typeof createMockSupabase>) =>
+    updateCalls(client).map((call) => call[0].payload)
+
+  it('should stamp room-wide updates with an increasing sequence', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'a')
+    doc.getText('test').insert(1, 'b')
+
+    const payloads = updatePayloads(mockSupabase)
+    expect(payloads.map((payload) => payload.seq)).toEqual([1, 2])
+    expect(payloads[0].session).toEqual(expect.any(String))
+  })
+
+  it('should restart the sequence with a new session on reconnect', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+    doc.getText('test').insert(0, 'a')
+
+    provider.connect()
+    await vi.runAllTimersAsync()
+    doc.getText('test').insert(1, 'b')
+
+    const [first, second] = updatePayloads(mockSupabase)
+    expect(second.seq).toBe(1)
+    expect(second.session).not.toBe(first.session)
+  })
+
+  it('should detect a gap and request the missing updates from the sender', async () => {
+    const clients = [createMockSupabase(), createMockSupabase()]
+    const room = connectRoom(clients)
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+
+    new SupabaseProvider('test-channel', doc1, clients[0] as never)
+    const provider2 = new SupabaseProvider('test-channel', doc2, clients[1] as never)
+    await vi.runAllTimersAsync()
+
+    const gapHandler = vi.fn()
+    provider2.on('gap-detected', gapHandler)
+
+    doc1.getText('test').insert(0, 'one ')
+    room.offline.add(clients[1])
+    doc1.getText('test').insert(4, 'two ')
+    room.offline.delete(clients[1])
+    doc1.getText('test').insert(8, 'three')
+
+    const senderId = updatePayloads(clients[0])[0].user.id
+    expect(gapHandler).toHaveBeenCalledWith({ peerId: senderId, expected: 2, received: 3 })
+
+    const request = clients[1]._mockChannel.send.mock.calls
+      .map((call) => call[0])
+      .find((message) => message.event === 'y-supabase-state-vector' && message.payload.to === senderId)
+    expect(request).toBeDefined()
+
+    await vi.runAllTimersAsync()
+    expect(doc2.getText('test').toString()).toBe('one two three')
+  })
+
+  it('should not report a gap when a sender starts a new session', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const gapHandler = vi.fn()
+    provider.on('gap-detected', gapHandler)
+
+    const update = encodeUpdate(Y.encodeStateAsUpdate(new Y.Doc()))
+    const send = (payload: object) =>
+      mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+        update,
+        user: { id: 'peer-1' },
+        timestamp: Date.now(),
+        ...payload,
+      })
+
+    send({ seq: 1, session: 'session-a' })
+    send({ seq: 2, session: 'session-a' })
+    send({ seq: 7, session: 'session-b' })
+    send({ seq: 8, session: 'session-b' })
+
+    expect(gapHandler).not.toHaveBeenCalled()
+  })
+})
+
+describe('offline edits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should buffer local edits while disconnected and flush them on reconnect', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const pendingHandler = vi.fn()
+    provider.on('pending-change', pendingHandler)
+
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    mockSupabase._mockChannel.send.mockClear()
+
+    doc.getText('test').insert(0, 'offline ')
+    doc.getText('test').insert(8, 'edits')
+
+    expect(updateCalls(mockSupabase)).toHaveLength(0)
+    expect(provider.hasPendingUpdates).toBe(true)
+    expect(pendingHandler).toHaveBeenCalledTimes(1)
+    expect(pendingHandler).toHaveBeenLastCalledWith(true)
+
+    // Reconnect after the backoff delay
+    await vi.advanceTimersByTimeAsync(1010)
+
+    const calls = updateCalls(mockSupabase)
+    expect(calls).toHaveLength(1)
+    expect(provider.hasPendingUpdates).toBe(false)
+    expect(pendingHandler).toHaveBeenLastCalledWith(false)
+
+    const restored = new Y.Doc()
+    Y.applyUpdate(restored, decodeUpdate(calls[0][0].payload.update))
+    expect(restored.getText('test').toString()).toBe('offline edits')
+  })
+
+  it('should buffer throttled edits that come due while disconnected', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      broadcastThrottleMs: 100,
+      autoReconnect: false,
+    })
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'hello')
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    mockSupabase._mockChannel.send.mockClear()
+
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(updateCalls(mockSupabase)).toHaveLength(0)
+    expect(provider.hasPendingUpdates).toBe(true)
+  })
+
+  it('should report no pending edits once destroyed with edits still buffered', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { autoReconnect: false })
+    await vi.runAllTimersAsync()
+
+    const pendingHandler = vi.fn()
+    provider.on('pending-change', pendingHandler)
+
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    doc.getText('test').insert(0, 'offline')
+    expect(pendingHandler).toHaveBeenLastCalledWith(true)
+
+    provider.destroy()
+
+    expect(pendingHandler).toHaveBeenCalledTimes(2)
+    expect(pendingHandler).toHaveBeenLastCalledWith(false)
+    expect(provider.hasPendingUpdates).toBe(false)
+  })
+
+  it('should send edits made before the first subscribe once connected', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    doc.getText('test').insert(0, 'early edit')
+
+    expect(provider.hasPendingUpdates).toBe(true)
+
+    await vi.runAllTimersAsync()
+
+    expect(updateCalls(mockSupabase)).toHaveLength(1)
+    expect(provider.hasPendingUpdates).toBe(false)
+  })
+})
+
+describe('disconnect and lazy connect', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should leave the room but keep awareness and buffer edits until connect()', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { awareness: true })
+    provider.getAwareness()!.setLocalStateField('user', { name: 'Alice' })
+    // Past the sync timeout, so the provider is synced
+    await vi.advanceTimersByTimeAsync(2100)
+
+    const disconnectHandler = vi.fn()
+    const syncHandler = vi.fn()
+    provider.on('disconnect', disconnectHandler)
+    provider.on('sync', syncHandler)
+
+    provider.disconnect()
+
+    expect(provider.getStatus()).toBe('disconnected')
+    expect(disconnectHandler).toHaveBeenCalledTimes(1)
+    expect(syncHandler).toHaveBeenCalledWith(false)
+    expect(mockSupabase.removeChannel).toHaveBeenCalled()
+    expect(provider.getAwareness()!.getLocalState()).toEqual({ user: { name: 'Alice' } })
+
+    mockSupabase._mockChannel.send.mockClear()
+    doc.getText('test').insert(0, 'while away')
+    expect(updateCalls(mockSupabase)).toHaveLength(0)
+    expect(provider.hasPendingUpdates).toBe(true)
+
+    // No reconnect happens on its own, even if the old channel reports in late
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(mockSupabase.channel).toHaveBeenCalledTimes(1)
+    expect(provider.getStatus()).toBe('disconnected')
+
+    provider.connect()
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(provider.getStatus()).toBe('connected')
+    expect(provider.hasPendingUpdates).toBe(false)
+    const restored = new Y.Doc()
+    Y.applyUpdate(restored, decodeUpdate(updateCalls(mockSupabase)[0][0].payload.update))
+    expect(restored.getText('test').toString()).toBe('while away')
+
+    provider.destroy()
+    provider.getAwareness()!.destroy()
+  })
+
+  it('should keep throttled edits for the next connect', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { broadcastThrottleMs: 100 })
+    await vi.runAllTimersAsync()
+
+    mockSupabase._mockChannel.send.mockClear()
+    doc.getText('test').insert(0, 'hello')
+    provider.disconnect()
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(updateCalls(mockSupabase)).toHaveLength(0)
+    expect(provider.hasPendingUpdates).toBe(true)
+  })
+
+  it('should cancel a scheduled reconnect and forget peers', async () => {
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const peerLeaveHandler = vi.fn()
+    provider.on('peer-leave', peerLeaveHandler)
+    mockSupabase._mockChannel.presenceState.mockReturnValue({ 'peer-1': [{}] })
+    mockSupabase._mockChannel._triggerPresence('sync')
+    expect(provider.getPeers()).toEqual(['peer-1'])
+
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    expect(provider.getStatus()).toBe('reconnecting')
+
+    provider.disconnect()
+
+    expect(provider.getStatus()).toBe('disconnected')
+    expect(provider.getPeers()).toEqual([])
+    expect(peerLeaveHandler).toHaveBeenCalledWith('peer-1')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('should not connect in the constructor with connect: false', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { connect: false })
+    const connectHandler = vi.fn()
+    provider.on('connect', connectHandler)
+
+    doc.getText('test').insert(0, 'early')
+    await vi.runAllTimersAsync()
+
+    expect(mockSupabase.channel).not.toHaveBeenCalled()
+    expect(provider.getStatus()).toBe('disconnected')
+    expect(provider.hasPendingUpdates).toBe(true)
+
+    provider.connect()
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(connectHandler).toHaveBeenCalledWith(provider)
+    const restored = new Y.Doc()
+    Y.applyUpdate(restored, decodeUpdate(updateCalls(mockSupabase)[0][0].payload.update))
+    expect(restored.getText('test').toString()).toBe('early')
+  })
+})
+
+describe('read-only mode', () => {
+  let doc: Y.Doc
+  let mockSupabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    doc = new Y.Doc()
+    mockSupabase = createMockSupabase()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const countUpdates = () => updateCalls(mockSupabase).length
+
+  it('should never broadcast or buffer local edits', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { readOnly: true })
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'local')
+    expect(countUpdates()).toBe(0)
+
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    doc.getText('test').insert(0, 'offline')
+    expect(provider.hasPendingUpdates).toBe(false)
+
+    provider.destroy()
+  })
+
+  it('should apply remote updates', async () => {
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { readOnly: true })
+    await vi.runAllTimersAsync()
+
+    const remoteDoc = new Y.Doc()
+    remoteDoc.getText('test').insert(0, 'remote')
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: encodeUpdate(Y.encodeStateAsUpdate(remoteDoc)),
+      user: { id: 'other-user' },
+      timestamp: Date.now(),
+    })
+
+    expect(doc.getText('test').toString()).toBe('remote')
+  })
+
+  it('should request missing updates but never answer state vectors with diffs', async () => {
+    doc.getText('test').insert(0, 'content')
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { readOnly: true, syncReplyDelayMs: 0 })
+    await vi.runAllTimersAsync()
+    mockSupabase._mockChannel.send.mockClear()
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'other-user' },
+      timestamp: Date.now(),
+    })
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(countUpdates()).toBe(0)
+    expect(mockSupabase._mockChannel.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'y-supabase-state-vector',
+        payload: expect.objectContaining({ to: 'other-user' }),
+      })
+    )
+  })
+})
+
+describe('update validation', () => {
+  let doc: Y.Doc
+  let mockSupabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    doc = new Y.Doc()
+    mockSupabase = createMockSupabase()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const sendRemote = (build: (remoteDoc: Y.Doc) => void, userId = 'other-user') => {
+    const remoteDoc = new Y.Doc()
+    build(remoteDoc)
+    const update = Y.encodeStateAsUpdate(remoteDoc)
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: encodeUpdate(update),
+      user: { id: userId },
+      timestamp: Date.now(),
+    })
+    return update
+  }
+
+  it('should reject updates by sender and emit rejected instead of applying them', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      validateUpdate: (_update, sender) => sender.id !== 'blocked-user',
+    })
+    await vi.runAllTimersAsync()
+
+    const rejectedHandler = vi.fn()
+    const messageHandler = vi.fn()
+    provider.on('rejected', rejectedHandler)
+    provider.on('message', messageHandler)
+
+    const update = sendRemote((remoteDoc) => remoteDoc.getText('test').insert(0, 'spam'), 'blocked-user')
+    expect(rejectedHandler).toHaveBeenCalledWith(update, { id: 'blocked-user' })
+    expect(messageHandler).not.toHaveBeenCalled()
+    expect(doc.getText('test').toString()).toBe('')
+
+    sendRemote((remoteDoc) => remoteDoc.getText('test').insert(0, 'welcome'))
+    expect(doc.getText('test').toString()).toBe('welcome')
+  })
+
+  it('should support async validators', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      validateUpdate: async (update) => update.length < 100,
+    })
+    await vi.runAllTimersAsync()
+
+    const rejectedHandler = vi.fn()
+    provider.on('rejected', rejectedHandler)
+
+    sendRemote((remoteDoc) => remoteDoc.getText('test').insert(0, 'x'.repeat(200)))
+    sendRemote((remoteDoc) => remoteDoc.getText('test').insert(0, 'short'))
+    await vi.waitFor(() => expect(doc.getText('test').toString()).toBe('short'))
+    expect(rejectedHandler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should allow rejecting edits to a top-level type that already has content', async () => {
+    // The README's check: the top-level types an update changes. Decoded items only name their parent
+    // when they have no neighbours, so the others are placed through their neighbours
+    const changedRoots = (update: Uint8Array) => {
+      const { structs, ds } = Y.decodeUpdate(update)
+      const find = (id: Y.ID) =>
+        structs.find((s) => s.id.client === id.client && s.id.clock <= id.clock && id.clock < s.id.clock + s.length) ??
+        (Y.getState(doc.store, id.client) > id.clock ? Y.getItem(doc.store, id) : null)
+
+      const rootOf = (start: Y.Item | Y.GC | Y.Skip | null) => {
+        let struct = start
+        while (struct instanceof Y.Item) {
+          const { parent } = struct as { parent: Y.AbstractType<unknown> | Y.ID | string | null }
+          if (typeof parent === 'string') return parent
+          if (parent instanceof Y.AbstractType) {
+            if (!parent._item) return Y.findRootTypeKey(parent)
+            struct = parent._item
+            continue
+          }
+          const next = parent ?? struct.origin ?? struct.rightOrigin
+          struct = next ? find(next) : null
+        }
+        return null
+      }
+
+      const roots = new Set<string | null>()
+      structs.forEach((struct) => {
+        if (struct instanceof Y.Item) roots.add(rootOf(struct))
+      })
+      ds.clients.forEach((deletes, client) => {
+        deletes.forEach(({ clock, len }) => {
+          for (let at = clock; at < clock + len; ) {
+            const struct = find(Y.createID(client, at))
+            if (!struct) {
+              roots.add(null)
+              break
+            }
+            if (struct instanceof Y.Item) roots.add(rootOf(struct))
+            at = struct.id.clock + struct.length
+          }
+        })
+      })
+      return roots
+    }
+
+    // Forbid edits to the top-level "protected" map and anything nested in it, and updates we cannot place yet
+    const validateUpdate = (update: Uint8Array) => {
+      const roots = changedRoots(update)
+      return !roots.has('protected') && !roots.has(null)
+    }
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, { validateUpdate })
+    await vi.runAllTimersAsync()
+
+    const rejectedHandler = vi.fn()
+    provider.on('rejected', rejectedHandler)
+
+    // The protected map and a text already have content, from an update that was accepted earlier
+    const remoteDoc = new Y.Doc()
+    remoteDoc.getText('public').insert(0, 'Hello')
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(remoteDoc))
+    doc.getMap('protected').set('owner', 'alice')
+    doc.getMap('protected').set('members', new Y.Array())
+    Y.applyUpdate(remoteDoc, Y.encodeStateAsUpdate(doc))
+
+    // Sends the update of a single edit, as the peer's provider would
+    const sendEdit = (edit: () => void, editor = remoteDoc) => {
+      let update: Uint8Array = new Uint8Array()
+      const capture = (edited: Uint8Array) => {
+        update = edited
+      }
+      editor.on('update', capture)
+      edit()
+      editor.off('update', capture)
+      mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+        update: encodeUpdate(update),
+        user: { id: 'other-user' },
+        timestamp: Date.now(),
+      })
+    }
+
+    sendEdit(() => remoteDoc.getMap('protected').set('owner', 'mallory'))
+    sendEdit(() => remoteDoc.getMap('protected').delete('owner'))
+    sendEdit(() => (remoteDoc.getMap('protected').get('members') as Y.Array<string>).push(['mallory']))
+    expect(rejectedHandler).toHaveBeenCalledTimes(3)
+    expect(doc.getMap('protected').get('owner')).toBe('alice')
+    expect((doc.getMap('protected').get('members') as Y.Array<string>).length).toBe(0)
+
+    // Another peer, whose edits all were accepted so far
+    const otherDoc = new Y.Doc()
+    Y.applyUpdate(otherDoc, Y.encodeStateAsUpdate(doc))
+    sendEdit(() => otherDoc.getText('public').insert(5, ' world'), otherDoc)
+    expect(rejectedHandler).toHaveBeenCalledTimes(3)
+    expect(doc.getText('public').toString()).toBe('Hello world')
+  })
+
+  it('should reject and report updates when the validator throws', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      validateUpdate: () => {
+        throw new Error('validator crashed')
+      },
+    })
+    await vi.runAllTimersAsync()
+
+    const rejectedHandler = vi.fn()
+    const errorHandler = vi.fn()
+    provider.on('rejected', rejectedHandler)
+    provider.on('error', errorHandler)
+
+    sendRemote((remoteDoc) => remoteDoc.getText('test').insert(0, 'text'))
+
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ message: 'validator crashed' }))
+    expect(rejectedHandler).toHaveBeenCalledTimes(1)
+    expect(doc.getText('test').toString()).toBe('')
+  })
+})
+
+describe('peer presence', () => {
+  let doc: Y.Doc
+  let mockSupabase: ReturnType<typeof createMockSupabase>
+
+  beforeEach(() => {
+    doc = new Y.Doc()
+    mockSupabase = createMockSupabase()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const join = (key: string) =>
+    mockSupabase._mockChannel._triggerPresence('join', { key, currentPresences: [], newPresences: [{}] })
+  const leave = (key: string, remaining: unknown[] = []) =>
+    mockSupabase._mockChannel._triggerPresence('leave', { key, currentPresences: remaining, leftPresences: [{}] })
+
+  it('should key presence by the provider user id and track on connect', async () => {
+    new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const stateVectorCall = mockSupabase._mockChannel.send.mock.calls.find(
+      (call) => call[0]?.event === 'y-supabase-state-vector'
+    )
+    const userId = stateVectorCall![0].payload.user.id
+
+    expect(mockSupabase.channel).toHaveBeenCalledWith('test-channel', {
+      config: { presence: { key: userId } },
+    })
+    expect(mockSupabase._mockChannel.track).toHaveBeenCalled()
+  })
+
+  it('should emit peer-join and peer-leave and expose getPeers()', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const joinHandler = vi.fn()
+    const leaveHandler = vi.fn()
+    provider.on('peer-join', joinHandler)
+    provider.on('peer-leave', leaveHandler)
+
+    join('peer-1')
+    join('peer-2')
+    join('peer-1')
+
+    expect(joinHandler).toHaveBeenCalledTimes(2)
+    expect(provider.getPeers()).toEqual(['peer-1', 'peer-2'])
+
+    // Still present through another presence entry
+    leave('peer-1', [{}])
+    expect(leaveHandler).not.toHaveBeenCalled()
+
+    leave('peer-1')
+    expect(leaveHandler).toHaveBeenCalledWith('peer-1')
+    expect(provider.getPeers()).toEqual(['peer-2'])
+  })
+
+  it('should not report itself as a peer', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const userId = mockSupabase._mockChannel.send.mock.calls.find(
+      (call) => call[0]?.event === 'y-supabase-state-vector'
+    )![0].payload.user.id
+    join(userId)
+
+    expect(provider.getPeers()).toEqual([])
+  })
+
+  it('should re-sync a peer that leaves and comes back', async () => {
+    doc.getText('test').insert(0, 'content')
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { syncReplyDelayMs: 0 })
+    await vi.runAllTimersAsync()
+
+    const stateVector = {
+      stateVector: encodeUpdate(Y.encodeStateVector(new Y.Doc())),
+      user: { id: 'peer-1' },
+      timestamp: Date.now(),
+    }
+    const countUpdates = () => updateCalls(mockSupabase).length
+
+    join('peer-1')
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', stateVector)
+    expect(countUpdates()).toBe(1)
+
+    // Without a leave, the peer is already synced
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', stateVector)
+    expect(countUpdates()).toBe(1)
+
+    leave('peer-1')
+    join('peer-1')
+    mockSupabase._mockChannel._triggerEvent('y-supabase-state-vector', stateVector)
+    expect(countUpdates()).toBe(2)
+  })
+
+  it('should drop peers missing from the presence state on sync', async () => {
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    join('peer-1')
+    join('peer-2')
+
+    const leaveHandler = vi.fn()
+    provider.on('peer-leave', leaveHandler)
+
+    mockSupabase._mockChannel.presenceState.mockReturnValue({ 'peer-2': [{}], 'peer-3': [{}] })
+    mockSupabase._mockChannel._triggerPresence('sync')
+
+    expect(leaveHandler).toHaveBeenCalledWith('peer-1')
+    expect(provider.getPeers()).toEqual(['peer-2', 'peer-3'])
+  })
+})
+
+describe('chunked updates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should split updates larger than maxPayloadBytes into chunks', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { maxPayloadBytes: 100 })
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'x'.repeat(500))
+
+    const calls = updateCalls(mockSupabase)
+    expect(calls.length).toBeGreaterThan(1)
+
+    const ids = new Set(calls.map((call) => call[0].payload.chunk.id))
+    expect(ids.size).toBe(1)
+    calls.forEach((call, index) => {
+      expect(call[0].payload.update.length).toBeLessThanOrEqual(100)
+      expect(call[0].payload.chunk).toMatchObject({ index, count: calls.length })
+    })
+  })
+
+  it('should not chunk updates that fit in a single message', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'hello')
+
+    const calls = updateCalls(mockSupabase)
+    expect(calls).toHaveLength(1)
+    expect(calls[0][0].payload.chunk).toBeUndefined()
+  })
+
+  it('should reassemble chunks received out of order', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never, { maxPayloadBytes: 100 })
+    const provider2 = new SupabaseProvider('test-channel', doc2, mockSupabase2 as never)
+    await vi.runAllTimersAsync()
+
+    const messageHandler = vi.fn()
+    provider2.on('message', messageHandler)
+
+    const content = 'chunked content '.repeat(40)
+    doc1.getText('test').insert(0, content)
+
+    const calls = updateCalls(mockSupabase1).reverse()
+    calls.slice(0, -1).forEach((call) => {
+      mockSupabase2._mockChannel._triggerEvent('y-supabase-update', call[0].payload)
+    })
+
+    // Nothing is applied until the last chunk arrives
+    expect(doc2.getText('test').toString()).toBe('')
+
+    mockSupabase2._mockChannel._triggerEvent('y-supabase-update', calls[calls.length - 1][0].payload)
+
+    expect(doc2.getText('test').toString()).toBe(content)
+    expect(messageHandler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should discard incomplete chunk sets after chunkTimeoutMs', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      chunkTimeoutMs: 5000,
+    })
+    await vi.runAllTimersAsync()
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: 'AAAA',
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+      chunk: { id: 'message-1', index: 0, count: 2 },
+    })
+
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(errorHandler).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('timed out') })
+    )
+  })
+
+  it('should emit error on inconsistent chunk metadata', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: 'AAAA',
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+      chunk: { id: 'message-1', index: 0, count: 2 },
+    })
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: 'AAAA',
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+      chunk: { id: 'message-1', index: 5, count: 6 },
+    })
+
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('Failed to reassemble') })
+    )
+    // The discarded set's timeout is cleared
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('should drop chunked updates too large to reassemble', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      maxPayloadBytes: 4,
+      maxUpdateBytes: 8,
+    })
+    await vi.runAllTimersAsync()
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+
+    const sendChunk = (id: string, update: string, index: number, count: number) =>
+      mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+        update,
+        user: { id: 'other-peer' },
+        timestamp: Date.now(),
+        chunk: { id, index, count },
+      })
+
+    // A count too large to allocate for
+    expect(() => sendChunk('message-1', 'AAAA', 0, 2 ** 32)).not.toThrow()
+    sendChunk('message-2', 'AAAA', 0, 3)
+    expect(errorHandler).toHaveBeenCalledTimes(2)
+    expect(errorHandler).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: 'Failed to reassemble chunked update: invalid chunk count' })
+    )
+
+    // Chunks larger than the sender's maxPayloadBytes
+    sendChunk('message-3', 'AAAAAAAA', 0, 2)
+    sendChunk('message-3', 'AAAAAAAA', 1, 2)
+    expect(errorHandler).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: 'Failed to reassemble chunked update: update exceeds maxUpdateBytes' })
+    )
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
+
+describe('compression', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should compress large updates and flag the payload', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { compression: true })
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'repetitive '.repeat(200))
+    await vi.waitFor(() => expect(updateCalls(mockSupabase)[0]).toBeDefined())
+
+    const payload = updateCalls(mockSupabase)[0][0].payload
+    expect(payload.compression).toBe('deflate')
+    expect(payload.update.length).toBeLessThan(encodeUpdate(Y.encodeStateAsUpdate(doc)).length)
+  })
+
+  it('should report corrupt compressed payloads without an unhandled rejection', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+    await vi.runAllTimersAsync()
+
+    const unhandled = vi.fn()
+    process.on('unhandledRejection', unhandled)
+    try {
+      mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+        update: encodeUpdate(new TextEncoder().encode('definitely not deflate')),
+        compression: 'deflate',
+        user: { id: 'remote-user' },
+        timestamp: Date.now(),
+      })
+
+      await vi.waitFor(() => expect(errorHandler).toHaveBeenCalled())
+      // Give a stray rejection time to surface
+      vi.useRealTimers()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(unhandled).not.toHaveBeenCalled()
+      expect(doc.getText('test').toString()).toBe('')
+    } finally {
+      process.off('unhandledRejection', unhandled)
+    }
+  })
+
+  it('should leave updates uncompressed when compression does not help', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { compression: true })
+    await vi.runAllTimersAsync()
+
+    doc.getText('test').insert(0, 'a')
+    await vi.waitFor(() => expect(updateCalls(mockSupabase)[0]).toBeDefined())
+
+    expect(updateCalls(mockSupabase)[0][0].payload.compression).toBeUndefined()
+  })
+
+  it('should apply compressed updates on a peer without compression enabled', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never, { compression: true })
+    new SupabaseProvider('test-channel', doc2, mockSupabase2 as never)
+    await vi.runAllTimersAsync()
+
+    const content = 'compressed content '.repeat(100)
+    doc1.getText('test').insert(0, content)
+    await vi.waitFor(() => expect(updateCalls(mockSupabase1)[0]).toBeDefined())
+
+    mockSupabase2._mockChannel._triggerEvent('y-supabase-update', updateCalls(mockSupabase1)[0][0].payload)
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe(content))
+  })
+
+  it('should use a custom codec', async () => {
+    const codec = {
+      name: 'custom',
+      compress: vi.fn(deflateCodec.compress),
+      decompress: vi.fn(deflateCodec.decompress),
+    }
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never, { compression: codec })
+    new SupabaseProvider('test-channel', doc2, mockSupabase2 as never, { compression: codec })
+    await vi.runAllTimersAsync()
+
+    doc1.getText('test').insert(0, 'custom codec '.repeat(100))
+    await vi.waitFor(() => expect(updateCalls(mockSupabase1)[0]).toBeDefined())
+
+    const payload = updateCalls(mockSupabase1)[0][0].payload
+    expect(payload.compression).toBe('custom')
+
+    mockSupabase2._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe('custom codec '.repeat(100)))
+    expect(codec.decompress).toHaveBeenCalled()
+  })
+
+  it('should emit error for an unsupported compression flag', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: 'AAAA',
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+      compression: 'brotli',
+    })
+
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Unsupported compression: brotli' })
+    )
+  })
+})
+
+describe('encryption', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createKey = () =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+  const getCall = (mockSupabase: ReturnType<typeof createMockSupabase>, event: string) =>
+    mockSupabase._mockChannel.send.mock.calls.find((call) => call[0]?.event === event)
+
+  it('should encrypt updates and state vectors with a fresh IV per message', async () => {
+    const key = await createKey()
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { encryption: key })
+    await vi.advanceTimersByTimeAsync(10)
+    await vi.waitFor(() => expect(getCall(mockSupabase, 'y-supabase-state-vector')).toBeDefined())
+
+    const stateVector = getCall(mockSupabase, 'y-supabase-state-vector')![0].payload
+    expect(stateVector.encrypted).toBe(true)
+    expect(stateVector.stateVector).not.toBe(encodeUpdate(Y.encodeStateVector(doc)))
+
+    const getUpdates = () => updateCalls(mockSupabase).map((call) => call[0].payload)
+
+    doc.getText('test').insert(0, 'secret')
+    doc.getText('test').insert(0, 'secret')
+    await vi.waitFor(() => expect(getUpdates()).toHaveLength(2))
+
+    const updates = getUpdates()
+    expect(updates[0].encrypted).toBe(true)
+    expect(atob(updates[0].update)).not.toContain('secret')
+    // Same plaintext length, different IVs
+    expect(updates[0].update.slice(0, 16)).not.toBe(updates[1].update.slice(0, 16))
+  })
+
+  it('should sync encrypted updates between peers sharing a key', async () => {
+    const key = await createKey()
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never, { encryption: key })
+    new SupabaseProvider('test-channel', doc2, mockSupabase2 as never, { encryption: () => Promise.resolve(key) })
+    await vi.advanceTimersByTimeAsync(10)
+
+    doc1.getText('test').insert(0, 'encrypted content')
+    await vi.waitFor(() => expect(getCall(mockSupabase1, 'y-supabase-update')).toBeDefined())
+
+    mockSupabase2._mockChannel._triggerEvent('y-supabase-update', getCall(mockSupabase1, 'y-supabase-update')![0].payload)
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe('encrypted content'))
+  })
+
+  it('should emit an error when a payload cannot be decrypted with the current key', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const mockSupabase1 = createMockSupabase()
+    const mockSupabase2 = createMockSupabase()
+
+    new SupabaseProvider('test-channel', doc1, mockSupabase1 as never, { encryption: await createKey() })
+    const provider2 = new SupabaseProvider('test-channel', doc2, mockSupabase2 as never, {
+      encryption: await createKey(),
+    })
+    await vi.advanceTimersByTimeAsync(10)
+
+    const errorHandler = vi.fn()
+    provider2.on('error', errorHandler)
+
+    doc1.getText('test').insert(0, 'hello')
+    await vi.waitFor(() => expect(getCall(mockSupabase1, 'y-supabase-update')).toBeDefined())
+    const payload = getCall(mockSupabase1, 'y-supabase-update')![0].payload
+    mockSupabase2._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    await vi.waitFor(() => expect(errorHandler).toHaveBeenCalled())
+    expect(errorHandler.mock.calls[0][0].message).toBe(
+      `Failed to decrypt payload from peer ${payload.user.id}: wrong encryption key or corrupted data`
+    )
+    expect(doc2.getText('test').toString()).toBe('')
+  })
+
+  it('should reject unencrypted payloads when encryption is enabled', async () => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, {
+      encryption: await createKey(),
+    })
+    await vi.advanceTimersByTimeAsync(10)
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+
+    const otherDoc = new Y.Doc()
+    otherDoc.getText('test').insert(0, 'injected')
+    mockSupabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: encodeUpdate(Y.encodeStateAsUpdate(otherDoc)),
+      user: { id: 'other-peer' },
+      timestamp: Date.now(),
+    })
+
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Rejected unencrypted payload from peer other-peer' })
+    )
+    expect(doc.getText('test').toString()).toBe('')
+  })
+})
+
+describe('authenticated messages', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createSigningKey = () =>
+    crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+
+  const getCall = (mockSupabase: ReturnType<typeof createMockSupabase>, event: string) =>
+    mockSupabase._mockChannel.send.mock.calls.find((call) => call[0]?.event === event)
+
+  // Connects a signing provider and returns the signed payload of its first local update
+  const createSignedUpdate = async (signingKey: CryptoKey) => {
+    const doc = new Y.Doc()
+    const mockSupabase = createMockSupabase()
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { signingKey })
+    await vi.advanceTimersByTimeAsync(10)
+
+    doc.getText('test').insert(0, 'signed')
+    await vi.waitFor(() => expect(getCall(mockSupabase, 'y-supabase-update')).toBeDefined())
+    return getCall(mockSupabase, 'y-supabase-update')![0].payload
+  }
+
+  // The device key table, shared by every client. Like its RLS policy, it only accepts new keys
+  // registered as the session's user
+  const identityKeys = new Map<string, { user_id: string; public_key: string }>()
+
+  const createAuthenticatedSupabase = (authId: string) => ({
+    ...createMockSupabase(),
+    auth: {
+      getSession: vi.fn(() => Promise.resolve({ data: { session: { user: { id: authId } } }, error: null })),
+      onAuthStateChange: vi.fn(() => ({ data: { subscription: { unsubscribe: vi.fn() } } })),
+    },
+    schema: vi.fn(() => ({
+      from: () => ({
+        insert: vi.fn(async (row: { id: string; user_id: string; public_key: string }) => {
+          if (row.user_id !== authId || identityKeys.has(row.id)) {
+            return { error: { message: 'new row violates row-level security policy' } }
+          }
+          identityKeys.set(row.id, { user_id: row.user_id, public_key: row.public_key })
+          return { error: null }
+        }),
+        select: () => ({
+          eq: (_column: string, id: string) => ({
+            single: async () =>
+              identityKeys.has(id)
+                ? { data: identityKeys.get(id), error: null }
+                : { data: null, error: { code: 'PGRST116', message: 'No rows found' } },
+          }),
+        }),
+      }),
+    })),
+  })
+
+  // Connects a provider signing as the given auth user and returns the payload of its first local update
+  const createIdentifiedUpdate = async (authId: string, text = 'hello') => {
+    const doc = new Y.Doc()
+    const mockSupabase = createAuthenticatedSupabase(authId)
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { authIdentity: true })
+    await vi.advanceTimersByTimeAsync(10)
+
+    doc.getText('test').insert(0, text)
+    await vi.waitFor(() => expect(getCall(mockSupabase, 'y-supabase-update')).toBeDefined())
+    return { mockSupabase, payload: getCall(mockSupabase, 'y-supabase-update')![0].payload }
+  }
+
+  const createReceiver = async (options: ConstructorParameters<typeof SupabaseProvider>[3]) => {
+    const doc = new Y.Doc()
+    const mockSupabase = createAuthenticatedSupabase('receiver')
+    const provider = new SupabaseProvider('test-channel', doc, mockSupabase as never, options)
+    await vi.advanceTimersByTimeAsync(10)
+
+    const errorHandler = vi.fn()
+    provider.on('error', errorHandler)
+    return { doc, mockSupabase, provider, errorHandler }
+  }
+
+  it('should sign messages and apply them on peers with the same key', async () => {
+    const signingKey = await createSigningKey()
+    const payload = await createSignedUpdate(signingKey)
+    expect(payload.signature).toEqual(expect.any(String))
+
+    const receiver = await createReceiver({ signingKey })
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    await vi.waitFor(() => expect(receiver.doc.getText('test').toString()).toBe('signed'))
+    expect(receiver.errorHandler).not.toHaveBeenCalled()
+  })
+
+  it('should verify signatures regardless of key order', async () => {
+    const signingKey = await createSigningKey()
+    const payload = await createSignedUpdate(signingKey)
+    const reordered = Object.fromEntries(Object.entries(payload).reverse())
+
+    const receiver = await createReceiver({ signingKey })
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', reordered)
+
+    await vi.waitFor(() => expect(receiver.doc.getText('test').toString()).toBe('signed'))
+  })
+
+  it('should drop tampered, unsigned and replayed messages', async () => {
+    const signingKey = await createSigningKey()
+    const payload = await createSignedUpdate(signingKey)
+    const receiver = await createReceiver({ signingKey })
+    const trigger = (message: unknown) =>
+      receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', message)
+    const errorMessages = () => receiver.errorHandler.mock.calls.map((call) => call[0].message)
+
+    trigger({ ...payload, user: { id: 'someone-else' } })
+    await vi.waitFor(() =>
+      expect(errorMessages()).toContain('Dropped message from peer someone-else: invalid signature')
+    )
+
+    const { signature: _signature, ...unsigned } = payload
+    trigger(unsigned)
+    expect(errorMessages()).toContain(`Dropped message from peer ${payload.user.id}: missing signature`)
+
+    trigger(payload)
+    await vi.waitFor(() => expect(receiver.doc.getText('test').toString()).toBe('signed'))
+    trigger(payload)
+    expect(errorMessages()).toContain(`Dropped message from peer ${payload.user.id}: replayed message`)
+  })
+
+  it('should drop malformed messages and report them', async () => {
+    const signingKey = await createSigningKey()
+    const receiver = await createReceiver({ signingKey })
+
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', null)
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', { user: { id: 'peer' }, timestamp: 'now' })
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(receiver.errorHandler).toHaveBeenCalledTimes(2)
+    expect(receiver.errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Dropped malformed y-supabase-update message' })
+    )
+  })
+
+  it('should drop messages outside the accepted time window', async () => {
+    const signingKey = await createSigningKey()
+    const payload = await createSignedUpdate(signingKey)
+    const receiver = await createReceiver({ signingKey, maxMessageAgeMs: 5000 })
+
+    vi.setSystemTime(Date.now() + 6000)
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    expect(receiver.errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: `Dropped message from peer ${payload.user.id}: timestamp outside the accepted window`,
+      })
+    )
+  })
+
+  it('should identify senders by their Supabase auth user id', async () => {
+    const signingKey = await createSigningKey()
+    const doc = new Y.Doc()
+    const mockSupabase = createAuthenticatedSupabase('auth-user-1')
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { signingKey, authIdentity: true })
+    await vi.advanceTimersByTimeAsync(10)
+
+    doc.getText('test').insert(0, 'hello')
+    await vi.waitFor(() => expect(getCall(mockSupabase, 'y-supabase-update')).toBeDefined())
+    const payload = getCall(mockSupabase, 'y-supabase-update')![0].payload
+    expect(payload.user.authId).toBe('auth-user-1')
+    expect(payload.userSignature).toEqual(expect.any(String))
+    expect(identityKeys.get(payload.keyId)?.user_id).toBe('auth-user-1')
+    expect(mockSupabase.auth.getSession).toHaveBeenCalledTimes(1)
+
+    const receiver = await createReceiver({ signingKey, authIdentity: true })
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    await vi.waitFor(() => expect(receiver.doc.getText('test').toString()).toBe('hello'))
+    expect(receiver.provider.getPeerAuthId(payload.user.id)).toBe('auth-user-1')
+    expect(receiver.errorHandler).not.toHaveBeenCalled()
+  })
+
+  it('should drop messages signed as another auth user', async () => {
+    const alice = await createIdentifiedUpdate('alice')
+    const mallory = await createIdentifiedUpdate('mallory', 'forged')
+    const receiver = await createReceiver({ authIdentity: true })
+    const trigger = (message: unknown) =>
+      receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', message)
+
+    // Claiming to be alice with mallory's own key
+    trigger({ ...mallory.payload, user: { ...mallory.payload.user, authId: 'alice' } })
+    await vi.waitFor(() =>
+      expect(receiver.errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: `Dropped message from peer ${mallory.payload.user.id}: signing key not registered by this auth user`,
+        })
+      )
+    )
+
+    // Claiming alice's key without holding its private key
+    trigger({ ...mallory.payload, user: { ...mallory.payload.user, authId: 'alice' }, keyId: alice.payload.keyId })
+    await vi.waitFor(() =>
+      expect(receiver.errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: `Dropped message from peer ${mallory.payload.user.id}: invalid user signature` })
+      )
+    )
+
+    expect(receiver.doc.getText('test').toString()).toBe('')
+    trigger(alice.payload)
+    await vi.waitFor(() => expect(receiver.doc.getText('test').toString()).toBe('hello'))
+    expect(receiver.provider.getPeerAuthId(alice.payload.user.id)).toBe('alice')
+  })
+
+  it('should not let another auth user take over a known peer id', async () => {
+    const alice = await createIdentifiedUpdate('alice')
+    const receiver = await createReceiver({ authIdentity: true })
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', alice.payload)
+    await vi.waitFor(() => expect(receiver.provider.getPeerAuthId(alice.payload.user.id)).toBe('alice'))
+
+    // Mallory signs a genuine message of her own, but under alice's public peer id
+    const doc = new Y.Doc()
+    const mockSupabase = createAuthenticatedSupabase('mallory')
+    vi.spyOn(crypto, 'randomUUID').mockReturnValueOnce(alice.payload.user.id)
+    new SupabaseProvider('test-channel', doc, mockSupabase as never, { authIdentity: true })
+    await vi.advanceTimersByTimeAsync(10)
+    doc.getText('test').insert(0, 'forged ')
+    await vi.waitFor(() => expect(getCall(mockSupabase, 'y-supabase-update')).toBeDefined())
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', getCall(mockSupabase, 'y-supabase-update')![0].payload)
+
+    await vi.waitFor(() =>
+      expect(receiver.errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: `Dropped message from peer ${alice.payload.user.id}: peer id belongs to another auth user`,
+        })
+      )
+    )
+    expect(receiver.provider.getPeerAuthId(alice.payload.user.id)).toBe('alice')
+  })
+
+  it('should drop messages without an auth user id when authIdentity is enabled', async () => {
+    const signingKey = await createSigningKey()
+    const payload = await createSignedUpdate(signingKey)
+    const receiver = await createReceiver({ signingKey, authIdentity: true })
+
+    receiver.mockSupabase._mockChannel._triggerEvent('y-supabase-update', payload)
+
+    expect(receiver.errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ message: `Dropped message from peer ${payload.user.id}: no auth user id` })
+    )
+  })
+})
+
+describe('cross-tab sync', () => {
+  const providers: SupabaseProvider[] = []
+  const createTab = (room: string, doc: Y.Doc, options = {}) => {
+    const mockSupabase = createMockSupabase()
+    const provider = new SupabaseProvider(room, doc, mockSupabase as never, { crossTab: true, ...options })
+    providers.push(provider)
+    return { provider, mockSupabase }
+  }
+
+  afterEach(() => {
+    providers.splice(0).forEach((provider) => provider.destroy())
+  })
+
+  it('should sync edits between tabs without Realtime', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    createTab('cross-tab-edits', doc1)
+    createTab('cross-tab-edits', doc2)
+
+    doc1.getText('test').insert(0, 'hello')
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe('hello'))
+  })
+
+  it('should catch up a newly opened tab', async () => {
+    const doc1 = new Y.Doc()
+    createTab('cross-tab-catch-up', doc1)
+    doc1.getText('test').insert(0, 'existing')
+
+    const doc2 = new Y.Doc()
+    createTab('cross-tab-catch-up', doc2)
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe('existing'))
+  })
+
+  it('should apply an update arriving from both Realtime and another tab only once', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const tab1 = createTab('cross-tab-dedupe', doc1)
+    const tab2 = createTab('cross-tab-dedupe', doc2)
+    connectRoom([tab1.mockSupabase, tab2.mockSupabase])
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    const messageHandler = vi.fn()
+    tab2.provider.on('message', messageHandler)
+
+    // Realtime delivers synchronously through the mock, the other tab a moment later
+    doc1.getText('test').insert(0, 'hello')
+    doc1.getText('test').delete(0, 1)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    expect(doc2.getText('test').toString()).toBe('ello')
+    // One insert and one delete, each reported once
+    expect(messageHandler).toHaveBeenCalledTimes(2)
+  })
+
+  it('should share awareness between tabs', async () => {
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const tab1 = createTab('cross-tab-awareness', doc1, { awareness: true })
+    const tab2 = createTab('cross-tab-awareness', doc2, { awareness: true })
+
+    tab1.provider.getAwareness()!.setLocalStateField('user', { name: 'Alice' })
+
+    await vi.waitFor(() =>
+      expect(tab2.provider.getAwareness()!.getStates().get(doc1.clientID)).toEqual({ user: { name: 'Alice' } })
+    )
+  })
+})
+
+describe('auth state changes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createSupabaseWithAuth = () => {
+    let authCallback: ((event: string, session: unknown) => void) | null = null
+    const unsubscribe = vi.fn()
+
+    return {
+      ...createMockSupabase(),
+      auth: {
+        onAuthStateChange: vi.fn((callback: (event: string, session: unknown) => void) => {
+          authCallback = callback
+          return { data: { subscription: { unsubscribe } } }
+        }),
+      },
+      realtime: {
+        setAuth: vi.fn(() => Promise.resolve()),
+      },
+      _unsubscribe: unsubscribe,
+      _triggerAuth: (event: string, session: unknown = null) => authCallback?.(event, session),
+    }
+  }
+
+  it('should pass a refreshed token to Realtime and stay connected', async () => {
+    const mockSupabase = createSupabaseWithAuth()
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    const authHandler = vi.fn()
+    provider.on('auth', authHandler)
+    await vi.runAllTimersAsync()
+
+    mockSupabase._triggerAuth('TOKEN_REFRESHED', { access_token: 'new-token' })
+
+    expect(mockSupabase.realtime.setAuth).toHaveBeenCalledWith('new-token')
+    expect(authHandler).toHaveBeenCalledWith('token-refreshed')
+    expect(provider.getStatus()).toBe('connected')
+    expect(mockSupabase.removeChannel).not.toHaveBeenCalled()
+  })
+
+  it('should tear down and stop reconnecting on sign-out', async () => {
+    const mockSupabase = createSupabaseWithAuth()
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    const authHandler = vi.fn()
+    const disconnectHandler = vi.fn()
+    provider.on('auth', authHandler)
+    provider.on('disconnect', disconnectHandler)
+    await vi.runAllTimersAsync()
+    mockSupabase.channel.mockClear()
+
+    mockSupabase._triggerAuth('SIGNED_OUT')
+
+    expect(authHandler).toHaveBeenCalledWith('signed-out')
+    expect(disconnectHandler).toHaveBeenCalledWith(provider)
+    expect(provider.getStatus()).toBe('disconnected')
+    expect(mockSupabase.removeChannel).toHaveBeenCalled()
+    expect(mockSupabase._unsubscribe).toHaveBeenCalled()
+
+    // The channel closing afterwards does not bring the provider back
+    mockSupabase._mockChannel._triggerSubscribe('CLOSED')
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(mockSupabase.channel).not.toHaveBeenCalled()
+  })
+
+  it('should ignore other auth events', async () => {
+    const mockSupabase = createSupabaseWithAuth()
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    const authHandler = vi.fn()
+    provider.on('auth', authHandler)
+    await vi.runAllTimersAsync()
+
+    mockSupabase._triggerAuth('INITIAL_SESSION', { access_token: 'token' })
+    mockSupabase._triggerAuth('USER_UPDATED', { access_token: 'token' })
+
+    expect(authHandler).not.toHaveBeenCalled()
+    expect(mockSupabase.realtime.setAuth).not.toHaveBeenCalled()
+    expect(provider.getStatus()).toBe('connected')
+  })
+
+  it('should subscribe to auth changes once across reconnects', async () => {
+    const mockSupabase = createSupabaseWithAuth()
+    const provider = new SupabaseProvider('test-channel', new Y.Doc(), mockSupabase as never)
+    await vi.runAllTimersAsync()
+
+    provider.connect()
+    expect(mockSupabase.auth.onAuthStateChange).toHaveBeenCalledTimes(1)
+
+    provider.destroy()
+    expect(mockSupabase._unsubscribe).toHaveBeenCalledTimes(1)
+  })
+})
+
 describe('cleanup and memory management', () => {
   beforeEach(() => {
     vi.useFakeTimers()
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import * as Y from 'yjs'
+import { encodeUpdate } from '../src/utils'
+import { SharedWorkerHost } from '../src/SharedWorkerHost'
+import { SharedWorkerProvider } from '../src/SharedWorkerProvider'
+
+const createMockSupabase = () => {
+  const listeners: Record<string, (data: unknown) => void> = {}
+
+  const channel = {
+    on: vi.fn((_type: string, options: { event: string }, callback: (data: unknown) => void) => {
+      listeners[options.event] = callback
+      return channel
+    }),
+    subscribe: vi.fn((callback: (status: string) => void) => {
+      setTimeout(() => callback('SUBSCRIBED'), 0)
+      return channel
+    }),
+    send: vi.fn(),
+    track: vi.fn(() => Promise.resolve('ok')),
+    presenceState: vi.fn(() => ({})),
+    _triggerEvent: (event: string, payload: unknown) => listeners['*']?.({ event, payload }),
+  }
+
+  return {
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(),
+    _mockChannel: channel,
+  }
+}
+
+// A minimal navigator.locks shared by the tabs and the worker, as in a browser
+const createMockLocks = () => {
+  const queues = new Map<string, Promise<unknown>>()
+  const releases = new Map<string, () => void>()
+
+  return {
+    request: vi.fn((name: string, callback: () => unknown) => {
+      const granted = (queues.get(name) ?? Promise.resolve()).then(
+        () =>
+          new Promise((resolve) => {
+            releases.set(name, () => resolve(undefined))
+            Promise.resolve(callback()).then(resolve, resolve)
+          })
+      )
+      queues.set(name, granted)
+      return granted
+    }),
+    // Releases a held lock the way the browser does when the tab holding it dies
+    _release: (name: string) => releases.get(name)?.(),
+  }
+}
+
+describe('SharedWorkerHost and SharedWorkerProvider', () => {
+  const ports: MessagePort[] = []
+
+  // Each tab connects to the worker through its own MessageChannel, like SharedWorker does
+  const connectTab = (host: SharedWorkerHost) => {
+    const { port1, port2 } = new MessageChannel()
+    host.addPort(port2)
+    ports.push(port1, port2)
+    return port1
+  }
+
+  afterEach(() => {
+    ports.splice(0).forEach((port) => port.close())
+  })
+
+  it('should share one channel between tabs and sync their documents', async () => {
+    const supabase = createMockSupabase()
+    const host = new SharedWorkerHost(supabase as never)
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    doc1.getText('test').insert(0, 'hello')
+
+    const tab1 = new SharedWorkerProvider('room', doc1, connectTab(host))
+    const tab2 = new SharedWorkerProvider('room', doc2, connectTab(host))
+
+    await vi.waitFor(() => expect(doc2.getText('test').toString()).toBe('hello'))
+    expect(supabase.channel).toHaveBeenCalledTimes(1)
+
+    doc2.getText('test').insert(5, ' world')
+    await vi.waitFor(() => expect(doc1.getText('test').toString()).toBe('hello world'))
+
+    // Local edits also go out over the worker's channel
+    expect(supabase._mockChannel.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'y-supabase-update' })
+    )
+
+    tab1.destroy()
+    tab2.destroy()
+  })
+
+  it('should mirror the worker provider status', async () => {
+    const supabase = createMockSupabase()
+    const host = new SharedWorkerHost(supabase as never)
+    const tab = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host))
+    const connectHandler = vi.fn()
+    tab.on('connect', connectHandler)
+
+    expect(tab.getStatus()).toBe('connecting')
+    await vi.waitFor(() => expect(tab.getStatus()).toBe('connected'))
+    expect(connectHandler).toHaveBeenCalledWith(tab)
+
+    tab.destroy()
+  })
+
+  it('should deliver remote updates to every attached tab', async () => {
+    const supabase = createMockSupabase()
+    const host = new SharedWorkerHost(supabase as never)
+    const doc1 = new Y.Doc()
+    const doc2 = new Y.Doc()
+    const tab1 = new SharedWorkerProvider('room', doc1, connectTab(host))
+    const tab2 = new SharedWorkerProvider('room', doc2, connectTab(host))
+    await vi.waitFor(() => expect(host.getRooms()).toEqual(['room']))
+
+    const remoteDoc = new Y.Doc()
+    remoteDoc.getText('test').insert(0, 'remote')
+    supabase._mockChannel._triggerEvent('y-supabase-update', {
+      update: encodeUpdate(Y.encodeStateAsUpdate(remoteDoc)),
+      user: { id: 'remote-user' },
+      timestamp: Date.now(),
+    })
+
+    await vi.waitFor(() => {
+      expect(doc1.getText('test').toString()).toBe('remote')
+      expect(doc2.getText('test').toString()).toBe('remote')
+    })
+
+    tab1.destroy()
+    tab2.destroy()
+  })
+
+  it('should tear down the room when the last tab detaches', async () => {
+    const supabase = createMockSupabase()
+    const host = new SharedWorkerHost(supabase as never)
+    const tab1 = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host))
+    const tab2 = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host))
+    await vi.waitFor(() => expect(host.getRooms()).toEqual(['room']))
+
+    tab1.destroy()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(supabase.removeChannel).not.toHaveBeenCalled()
+    expect(host.getRooms()).toEqual(['room'])
+
+    tab2.destroy()
+    await vi.waitFor(() => expect(host.getRooms()).toEqual([]))
+    expect(supabase.removeChannel).toHaveBeenCalledTimes(1)
+  })
+
+  it('should detach a tab that dies without calling destroy once its lock is released', async () => {
+    const locks = createMockLocks()
+    vi.stubGlobal('navigator', { locks })
+    try {
+      const supabase = createMockSupabase()
+      const host = new SharedWorkerHost(supabase as never)
+      const port = connectTab(host)
+      new SharedWorkerProvider('room', new Y.Doc(), port)
+      await vi.waitFor(() => expect(locks.request).toHaveBeenCalledTimes(2))
+      expect(host.getRooms()).toEqual(['room'])
+
+      // The tab crashes: it never detaches, and the browser releases its lock
+      port.close()
+      locks._release(locks.request.mock.calls[0][0])
+
+      await vi.waitFor(() => expect(host.getRooms()).toEqual([]))
+      expect(supabase.removeChannel).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('should drop the room when the worker signs out, and start a new one for later tabs', async () => {
+    let authCallback: ((event: string, session: unknown) => void) | null = null
+    const supabase = {
+      ...createMockSupabase(),
+      auth: {
+        onAuthStateChange: vi.fn((callback: (event: string, session: unknown) => void) => {
+          authCallback = callback
+          return { data: { subscription: { unsubscribe: vi.fn() } } }
+        }),
+      },
+    }
+    const host = new SharedWorkerHost(supabase as never)
+    const tab1 = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host))
+    await vi.waitFor(() => expect(tab1.getStatus()).toBe('connected'))
+
+    authCallback!('SIGNED_OUT', null)
+
+    await vi.waitFor(() => expect(tab1.getStatus()).toBe('disconnected'))
+    expect(host.getRooms()).toEqual([])
+
+    const tab2 = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host))
+    await vi.waitFor(() => expect(tab2.getStatus()).toBe('connected'))
+    expect(supabase.channel).toHaveBeenCalledTimes(2)
+
+    tab1.destroy()
+    tab2.destroy()
+  })
+
+  it('should share awareness between tabs and remove it on destroy', async () => {
+    const supabase = createMockSupabase()
+    const host = new SharedWorkerHost(supabase as never)
+    const doc1 = new Y.Doc()
+    const tab1 = new SharedWorkerProvider('room', doc1, connectTab(host), { awareness: true })
+    const tab2 = new SharedWorkerProvider('room', new Y.Doc(), connectTab(host), { awareness: true })
+
+    tab1.getAwareness()!.setLocalStateField('user', { name: 'Alice' })
+    await vi.waitFor(() =>
+      expect(tab2.getAwareness()!.getStates().get(doc1.clientID)).toEqual({ user: { name: 'Alice' } })
+    )
+
+    tab1.destroy()
+    await vi.waitFor(() => expect(tab2.getAwareness()!.getStates().has(doc1.clientID)).toBe(false))
+
+    tab2.destroy()
+    tab2.getAwareness()!.destroy()
+    tab1.getAwareness()!.destroy()
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as Y from 'yjs'
+import { SupabaseProvider } from '../src/SupabaseProvider'
+import { InMemoryTransport } from '../src/InMemoryTransport'
+import { RealtimeTransport } from '../src/RealtimeTransport'
+
+const flushMicrotasks = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+describe('InMemoryTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should report connected and deliver messages to other peers only', async () => {
+    const a = new InMemoryTransport('room')
+    const b = new InMemoryTransport('room')
+    const other = new InMemoryTransport('other-room')
+    const statusA = vi.fn()
+    const messagesA = vi.fn()
+    const messagesB = vi.fn()
+    const messagesOther = vi.fn()
+    a.onStatus(statusA)
+    a.onMessage(messagesA)
+    b.onMessage(messagesB)
+    other.onMessage(messagesOther)
+
+    a.connect('a')
+    b.connect('b')
+    other.connect('c')
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(statusA).toHaveBeenCalledWith('connected')
+
+    a.send('event', { value: 1 })
+    expect(messagesB).not.toHaveBeenCalled() // Delivered asynchronously
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(messagesB).toHaveBeenCalledWith('event', { value: 1 })
+    expect(messagesA).not.toHaveBeenCalled()
+    expect(messagesOther).not.toHaveBeenCalled()
+
+    a.close()
+    b.close()
+    other.close()
+  })
+
+  it('should report presence as peers join and leave', async () => {
+    const a = new InMemoryTransport('room')
+    const b = new InMemoryTransport('room')
+    const presenceA = vi.fn()
+    a.onPresence(presenceA)
+
+    a.connect('a')
+    b.connect('b')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(presenceA).toHaveBeenLastCalledWith(['a', 'b'])
+
+    b.close()
+    expect(presenceA).toHaveBeenLastCalledWith(['a'])
+
+    a.close()
+  })
+
+  it('should not deliver messages after close', async () => {
+    const a = new InMemoryTransport('room')
+    const b = new InMemoryTransport('room')
+    const messagesB = vi.fn()
+    b.onMessage(messagesB)
+
+    a.connect('a')
+    b.connect('b')
+    await vi.advanceTimersByTimeAsync(0)
+
+    a.send('event', {})
+    b.close()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(messagesB).not.toHaveBeenCalled()
+    a.close()
+  })
+})
+
+describe('SupabaseProvider over InMemoryTransport', () => {
+  it('should sync documents and track peers without Supabase', async () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    docA.getText('test').insert(0, 'hello')
+
+    const providerA = new SupabaseProvider('room', docA, {} as never, {
+      transport: new InMemoryTransport('room'),
+      syncReplyDelayMs: 0,
+    })
+    const providerB = new SupabaseProvider('room', docB, {} as never, {
+      transport: new InMemoryTransport('room'),
+      syncReplyDelayMs: 0,
+    })
+    await flushMicrotasks()
+
+    expect(providerA.getStatus()).toBe('connected')
+    expect(docB.getText('test').toString()).toBe('hello')
+    expect(providerA.getPeers()).toHaveLength(1)
+    expect(providerB.getPeers()).toHaveLength(1)
+
+    docB.getText('test').insert(5, ' world')
+    await flushMicrotasks()
+    expect(docA.getText('test').toString()).toBe('hello world')
+
+    const leaveHandler = vi.fn()
+    providerA.on('peer-leave', leaveHandler)
+    providerB.destroy()
+    expect(leaveHandler).toHaveBeenCalledTimes(1)
+    expect(providerA.getPeers()).toEqual([])
+
+    providerA.destroy()
+  })
+})
+
+describe('RealtimeTransport', () => {
+  const createMockSupabase = () => {
+    const channels: {
+      on: ReturnType<typeof vi.fn>
+      subscribe: ReturnType<typeof vi.fn>
+      track: ReturnType<typeof vi.fn>
+      _status?: (status: string, err?: Error) => void
+    }[] = []
+
+    const supabase = {
+      channel: vi.fn(() => {
+        const channel = {
+          on: vi.fn(() => channel),
+          subscribe: vi.fn((callback: (status: string, err?: Error) => void) => {
+            channel._status = callback
+            return channel
+          }),
+          track: vi.fn(() => Promise.resolve('ok')),
+          _status: undefined as ((status: string, err?: Error) => void) | undefined,
+        }
+        channels.push(channel)
+        return channel
+      }),
+      removeChannel: vi.fn(),
+    }
+
+    return { supabase, channels }
+  }
+
+  it('should remove the previous channel on reconnect and ignore its late callbacks', () => {
+    const { supabase, channels } = createMockSupabase()
+    const transport = new RealtimeTransport('room', supabase as never)
+    const statusHandler = vi.fn()
+    transport.onStatus(statusHandler)
+
+    transport.connect('peer')
+    transport.connect('peer')
+
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channels[0])
+
+    channels[0]._status?.('CLOSED')
+    expect(statusHandler).not.toHaveBeenCalled()
+
+    channels[1]._status?.('SUBSCRIBED')
+    expect(statusHandler).toHaveBeenCalledWith('connected')
+    expect(channels[1].track).toHaveBeenCalled()
+  })
+
+  it('should map channel errors to transport statuses', () => {
+    const { supabase, channels } = createMockSupabase()
+    const transport = new RealtimeTransport('room', supabase as never)
+    const statusHandler = vi.fn()
+    transport.onStatus(statusHandler)
+    transport.connect('peer')
+
+    const err = new Error('boom')
+    channels[0]._status?.('CHANNEL_ERROR', err)
+    channels[0]._status?.('TIMED_OUT')
+
+    expect(statusHandler).toHaveBeenNthCalledWith(1, 'error', err)
+    expect(statusHandler).toHaveBeenNthCalledWith(2, 'timed-out')
+  })
+
+  it('should report authorization failures as unauthorized and drop the channel', () => {
+    const { supabase, channels } = createMockSupabase()
+    const transport = new RealtimeTransport('room', supabase as never, { private: true })
+    const statusHandler = vi.fn()
+    transport.onStatus(statusHandler)
+    transport.connect('peer')
+
+    channels[0]._status?.(
+      'CHANNEL_ERROR',
+      new Error('"Unauthorized: You do not have permissions to read from this Channel topic: room"')
+    )
+
+    expect(statusHandler).toHaveBeenCalledWith('unauthorized', expect.any(Error))
+    expect(statusHandler.mock.calls[0][1].message).toContain('Not authorized to join channel room')
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channels[0])
+  })
+
+  it('should pass private and channel config to supabase.channel()', () => {
+    const { supabase } = createMockSupabase()
+    const transport = new RealtimeTransport('room', supabase as never, {
+      private: true,
+      config: { broadcast: { ack: true }, presence: { enabled: true } },
+    })
+    transport.connect('peer')
+
+    expect(supabase.channel).toHaveBeenCalledWith('room', {
+      config: {
+        broadcast: { ack: true },
+        presence: { enabled: true, key: 'peer' },
+        private: true,
+      },
+    })
+  })
+})